@@ -10,27 +10,94 @@ export {
   Transaction,
   createMySQLORMFromEnv,
   col,
+  defineQuery,
   type MySQLORMConfig,
+  type BigNumbersMode,
+  type BigNumber,
   type QueryConfig,
+  type CteDefinition,
+  type SetOperation,
+  type SetOperator,
+  type RecursiveCteConfig,
   type CreateTableConfig,
   type FieldValue,
+  type WindowField,
+  type WindowFunction,
+  type WindowFrame,
+  type WindowFrameBound,
+  type InferWindowValue,
   type TypedColumn,
   type FieldMap,
   type InferRow,
   type InferFieldValue,
   type ResolvedRow,
   type InferredQueryConfig,
+  type TypedQueryConfig,
+  type TypedWhereCondition,
+  type TypedWhereEntry,
+  type ColumnName,
+  type ColumnValue,
+  type JoinConfig,
+  type JoinOnConfig,
+  type JoinType,
+  type IndexHint,
+  type OptimizerHint,
+  type CompiledQuery,
+  type ToSQLOptions,
+  type ExplainOptions,
+  type ExplainResult,
+  type ExplainTablePlan,
+  type AggregateConfig,
+  type AggregateMetric,
+  type AggregateRow,
+  type InferAggregateValue,
+  type FullTextMatch,
+  type FullTextMode,
+  type JsonCondition,
+  type JsonPathField,
+  type JsonValue,
+  type GeoJsonGeometry,
+  type GeoJsonPosition,
+  type SpatialCondition,
+  type SpatialField,
+  type WriteValue,
   type WhereCondition,
   type WhereOperator,
   type WhereScalar,
   type WhereEntry,
+  type WhereGroup,
+  type SubqueryCondition,
+  type SubqueryOperator,
+  type HavingEntry,
   type OrderByConfig,
   type JsonObject,
+  type CursorPagination,
+  type CursorPage,
+  type GetDataOptions,
+  type StreamOptions,
+  type EachChunkOptions,
+  type ChunkProgress,
+  type ChunkInfo,
+  type CountStrategy,
+  type LockConfig,
   type VectorDistanceMetric,
   type VectorSearchConfig,
   type VectorSearchResult,
 } from './mysql-orm';
 
+// Export fluent query builder
+export { QueryBuilder } from './query-builder';
+
+// Export type conversion registry and built-in converters
+export {
+  converters,
+  type TypeConverter,
+  type TypeConversionConfig,
+  type ResultField,
+  type MySQLFieldType,
+  type BindValue,
+} from './type-converters';
+
 // Export query logger functionality
 export {
   QueryLogger,
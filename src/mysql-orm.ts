@@ -1,11 +1,38 @@
-import mysql, { type ResultSetHeader, escapeId, escape, type PoolConnection } from 'mysql2/promise';
+import mysql, {
+  type ResultSetHeader,
+  escapeId,
+  escape,
+  type PoolConnection,
+  type QueryOptions,
+} from 'mysql2/promise';
+import type { Connection as CoreConnection } from 'mysql2';
 import { colors } from './colors';
 import { getQueryLogger } from './query-logger';
+import { QueryBuilder } from './query-builder';
+import {
+  converters,
+  type BindValue,
+  type ResultField,
+  type TypeConversionConfig,
+  type TypeConverter,
+} from './type-converters';
+
+/**
+ * How BIGINT values and insert IDs are returned — see {@link MySQLORMConfig.bigNumbers}.
+ */
+export type BigNumbersMode = 'number' | 'string' | 'bigint';
+
+/** The JavaScript type of a BIGINT value (e.g. an insert ID) in a {@link BigNumbersMode}. */
+export type BigNumber<B extends BigNumbersMode> = B extends 'bigint'
+  ? bigint
+  : B extends 'string'
+    ? string
+    : number;
 
 /**
  * MySQL ORM Configuration interface
  */
-export interface MySQLORMConfig {
+export interface MySQLORMConfig<B extends BigNumbersMode = BigNumbersMode> {
   host: string;
   user: string;
   password: string;
@@ -17,6 +44,19 @@ export interface MySQLORMConfig {
   queueLimit?: number;
   enableKeepAlive?: boolean;
   keepAliveInitialDelay?: number;
+  /** Converters for reading and writing column values (see {@link TypeConversionConfig}) */
+  typeConversion?: TypeConversionConfig;
+  /**
+   * How BIGINT columns and insert IDs are returned: `'number'` (the default; values beyond
+   * `Number.MAX_SAFE_INTEGER` lose precision), `'string'` or `'bigint'`. Row counts are
+   * always returned as numbers.
+   */
+  bigNumbers?: B;
+  /**
+   * SRIDs of spatial columns written from GeoJSON values, keyed by column or `table.column`
+   * (e.g. `{ 'shops.location': 3857 }`). Other columns are written with SRID 4326.
+   */
+  srids?: { [column: string]: number };
 }
 
 /**
@@ -40,17 +80,121 @@ export type TypedColumn<V = unknown> = {
  * rows[0].id;   // typed as number
  * rows[0].name; // typed as string
  *
- * @param column Column name or SQL expression to select
+ * @param column Column name or SQL expression to select, or a {@link JsonPathField}
  * @returns A typed column reference for use in a `fields` map
  */
-export function col<V = unknown>(column: string): TypedColumn<V> {
+export function col<V = unknown>(column: string): TypedColumn<V>;
+export function col<V = unknown>(column: JsonPathField): JsonPathField<V>;
+export function col<V = unknown>(
+  column: string | JsonPathField
+): TypedColumn<V> | JsonPathField<V> {
+  if (typeof column !== 'string') {
+    // JSON path fields carry their value type as a phantom; the object is used as-is
+    return column as JsonPathField<V>;
+  }
   return { __column: column } as TypedColumn<V>;
 }
 
 /**
- * Field value type - a column name (string), a typed column ({@link col}), raw SQL, or a subquery
+ * Window functions supported by structured {@link WindowField}s: ranking and value
+ * functions, plus aggregates used over a window (e.g. running totals).
+ */
+export type WindowFunction =
+  | 'ROW_NUMBER'
+  | 'RANK'
+  | 'DENSE_RANK'
+  | 'PERCENT_RANK'
+  | 'CUME_DIST'
+  | 'NTILE'
+  | 'LAG'
+  | 'LEAD'
+  | 'FIRST_VALUE'
+  | 'LAST_VALUE'
+  | 'NTH_VALUE'
+  | 'SUM'
+  | 'AVG'
+  | 'COUNT'
+  | 'MIN'
+  | 'MAX';
+
+/** A window frame boundary. */
+export type WindowFrameBound =
+  | 'UNBOUNDED PRECEDING'
+  | 'CURRENT ROW'
+  | 'UNBOUNDED FOLLOWING'
+  | { preceding: number }
+  | { following: number };
+
+/** A window frame clause, e.g. `ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW`. */
+export type WindowFrame = {
+  unit: 'ROWS' | 'RANGE';
+  start: WindowFrameBound;
+  /** Omit for a single-bound frame (`ROWS 2 PRECEDING`) */
+  end?: WindowFrameBound;
+};
+
+/**
+ * A structured window-function field, rendered as `FN(args) OVER (PARTITION BY ... ORDER BY
+ * ... frame)` with every column alias-resolved and escaped.
+ *
+ * @example
+ * fields: {
+ *   rank: {
+ *     window: 'ROW_NUMBER',
+ *     partitionBy: 'userId',
+ *     orderBy: [{ column: 'total', direction: 'DESC' }],
+ *   },
+ *   runningTotal: {
+ *     window: 'SUM',
+ *     args: ['total'],
+ *     orderBy: 'createdAt',
+ *     frame: { unit: 'ROWS', start: 'UNBOUNDED PRECEDING', end: 'CURRENT ROW' },
+ *   },
+ * }
+ */
+export type WindowField<Fn extends WindowFunction = WindowFunction> = {
+  window: Fn;
+  /** Arguments: column names/aliases (escaped), integer literals (e.g. NTILE buckets,
+   *  LAG offsets) or `'*'` for COUNT. */
+  args?: Array<string | number>;
+  /** PARTITION BY column(s) */
+  partitionBy?: string | string[];
+  /** ORDER BY within each partition */
+  orderBy?: OrderByConfig;
+  /** Frame clause */
+  frame?: WindowFrame;
+};
+
+/**
+ * Value type produced by a window function: ROW_NUMBER, RANK, DENSE_RANK, NTILE and COUNT
+ * yield BIGINTs (typed by the ORM's {@link BigNumbersMode} `B`), PERCENT_RANK and CUME_DIST
+ * numbers, SUM/AVG DECIMAL (returned by mysql2 as a string); value functions and MIN/MAX
+ * depend on the column and infer as `unknown`.
  */
-export type FieldValue = string | { raw: string } | TypedColumn | QueryConfig;
+export type InferWindowValue<
+  Fn extends WindowFunction,
+  B extends BigNumbersMode = 'number',
+> = Fn extends 'ROW_NUMBER' | 'RANK' | 'DENSE_RANK' | 'NTILE' | 'COUNT'
+  ? BigNumber<B>
+  : Fn extends 'PERCENT_RANK' | 'CUME_DIST'
+    ? number
+    : Fn extends 'SUM' | 'AVG'
+      ? string
+      : unknown;
+
+/**
+ * Field value type - a column name (string), a typed column ({@link col}), raw SQL,
+ * a window function ({@link WindowField}), or a subquery
+ */
+export type FieldValue =
+  | string
+  | { raw: string }
+  | TypedColumn
+  | WindowField
+  | FullTextMatch
+  | JsonPathField
+  | SpatialField
+  | QueryConfig;
 
 /**
  * Order by configuration - either a column name or an object with column and direction
@@ -79,10 +223,16 @@ export type WhereOperator =
   | 'IS NULL'
   | 'IS NOT NULL'
   | 'BETWEEN'
-  | 'NOT BETWEEN';
+  | 'NOT BETWEEN'
+  | 'STARTS WITH'
+  | 'ENDS WITH'
+  | 'CONTAINS'
+  | 'ISTARTS WITH'
+  | 'IENDS WITH'
+  | 'ICONTAINS';
 
 /** A scalar value usable in a WHERE condition. */
-export type WhereScalar = string | number | boolean | null;
+export type WhereScalar = BindValue;
 
 /**
  * A structured, fully-parameterised WHERE condition.
@@ -95,6 +245,9 @@ export type WhereScalar = string | number | boolean | null;
  * - `IS NULL` / `IS NOT NULL` take no `value`.
  * - `IN` / `NOT IN` take an array `value`.
  * - `BETWEEN` / `NOT BETWEEN` take a `[low, high]` tuple `value`.
+ * - `STARTS WITH` / `ENDS WITH` / `CONTAINS` take a string `value` matched literally: they
+ *   compile to `LIKE ? ESCAPE '\\'` with `%`, `_` and `\` in the value escaped. The
+ *   `I`-prefixed variants compare case-insensitively under `collation`.
  * - all other operators take a single scalar `value`.
  */
 export type WhereCondition = {
@@ -104,18 +257,440 @@ export type WhereCondition = {
   op: WhereOperator;
   /** Bound value(s); omitted for IS NULL / IS NOT NULL. */
   value?: WhereScalar | WhereScalar[] | [WhereScalar, WhereScalar];
+  /**
+   * Collation for the case-insensitive pattern operators (`ISTARTS WITH`, `IENDS WITH`,
+   * `ICONTAINS`); defaults to `utf8mb4_0900_ai_ci`.
+   */
+  collation?: string;
+};
+
+/** Operators usable with a subquery: membership, or a comparison (optionally quantified). */
+export type SubqueryOperator = 'IN' | 'NOT IN' | '=' | '!=' | '<>' | '<' | '>' | '<=' | '>=';
+
+/**
+ * A WHERE condition that embeds a nested {@link QueryConfig} as a subquery. The subquery's
+ * own bound values are propagated in placeholder order.
+ *
+ * - `{ exists: query }` / `{ notExists: query }` — `EXISTS (...)` / `NOT EXISTS (...)`.
+ * - `{ column, op: 'IN' | 'NOT IN', subquery }` — membership in the subquery's rows.
+ * - `{ column, op, subquery }` with a comparison `op` — compares against a scalar subquery,
+ *   or against every / any row with `quantifier: 'ALL' | 'ANY'`.
+ *
+ * Correlate a subquery with the outer query using a raw `where` string in the subquery
+ * (e.g. `'orders.user_id = users.user_id'`).
+ *
+ * @example
+ * where: [
+ *   {
+ *     exists: {
+ *       table: 'orders',
+ *       idField: 'id',
+ *       fields: { one: { raw: '1' } },
+ *       where: ['orders.user_id = users.id'],
+ *     },
+ *   },
+ *   {
+ *     column: 'price',
+ *     op: '>',
+ *     quantifier: 'ALL',
+ *     subquery: { table: 'products', idField: 'id', fields: { price: 'price' } },
+ *   },
+ * ]
+ */
+export type SubqueryCondition =
+  | { exists: QueryConfig }
+  | { notExists: QueryConfig }
+  | {
+      /** Column name or alias (resolved against the `fields` map). */
+      column: string;
+      op: SubqueryOperator;
+      /** `ANY` / `ALL` quantifier for comparison operators (not valid with IN / NOT IN). */
+      quantifier?: 'ANY' | 'ALL';
+      subquery: QueryConfig;
+    };
+
+/**
+ * A boolean group of WHERE entries, arbitrarily nestable.
+ *
+ * - `{ and: [...] }` — every entry must match (an empty group matches all rows).
+ * - `{ or: [...] }` — at least one entry must match (an empty group matches no rows).
+ * - `{ not: entry }` — negates a single entry (which may itself be a group).
+ *
+ * @example
+ * // (status = 'active' OR role = 'admin') AND NOT (deleted = 1)
+ * where: [
+ *   {
+ *     or: [
+ *       { column: 'status', op: '=', value: 'active' },
+ *       { column: 'role', op: '=', value: 'admin' },
+ *     ],
+ *   },
+ *   { not: { column: 'deleted', op: '=', value: 1 } },
+ * ]
+ */
+export type WhereGroup = { and: WhereEntry[] } | { or: WhereEntry[] } | { not: WhereEntry };
+
+/** A JSON document value, bound as JSON text in {@link JsonCondition}s. */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * A value extracted from a JSON column at a JSON path: `JSON_EXTRACT(col, ?)` (like `->`), or
+ * `JSON_UNQUOTE(JSON_EXTRACT(col, ?))` (like `->>`) with `unquote`. The path is validated
+ * and bound as a parameter. Wrap it in {@link col} to type the selected value.
+ *
+ * @example
+ * fields: { city: col<string>({ json: 'profile', path: '$.address.city', unquote: true }) }
+ */
+export type JsonPathField<V = unknown> = {
+  /** JSON column (name or alias) */
+  json: string;
+  /** JSON path, e.g. `$.address.city` or `$.tags[0]` */
+  path: string;
+  /** Return the unquoted scalar (`->>`) instead of the JSON value (`->`) */
+  unquote?: boolean;
+  /** Phantom value type (set via {@link col}) */
+  readonly __type?: V;
+};
+
+/**
+ * A structured condition on a JSON column, optionally at a JSON `path` (validated and bound).
+ *
+ * - `{ json, path, op, value }` — compares the unquoted value at `path` (`->>`) with any
+ *   {@link WhereOperator}; with `length: true` it compares `JSON_LENGTH` instead.
+ * - `{ json, path?, contains }` — `JSON_CONTAINS(col, ?[, path])`.
+ * - `{ json, path?, overlaps }` — `JSON_OVERLAPS(...)` (MySQL 8.0.17+).
+ * - `{ json, path?, memberOf }` — `? MEMBER OF (...)` (MySQL 8.0.17+).
+ *
+ * `contains` / `overlaps` candidates are bound as JSON text.
+ *
+ * @example
+ * where: [
+ *   { json: 'profile', path: '$.address.city', op: '=', value: 'Leeds' },
+ *   { json: 'tags', length: true, op: '>', value: 2 },
+ *   { json: 'tags', memberOf: 'mysql' },
+ *   { json: 'settings', contains: { beta: true } },
+ * ]
+ */
+export type JsonCondition =
+  | {
+      json: string;
+      path?: string;
+      /** Compare `JSON_LENGTH` of the document (at `path`) instead of its value */
+      length?: boolean;
+      op: WhereOperator;
+      value?: WhereScalar | WhereScalar[] | [WhereScalar, WhereScalar];
+    }
+  | { json: string; path?: string; contains: JsonValue }
+  | { json: string; path?: string; overlaps: JsonValue }
+  | { json: string; path?: string; memberOf: WhereScalar };
+
+/** A GeoJSON position: `[longitude, latitude]`. */
+export type GeoJsonPosition = [number, number];
+
+/**
+ * A GeoJSON geometry. Spatial conditions and fields bind geometries as GeoJSON text through
+ * `ST_GeomFromGeoJSON(?)` (SRID 4326 unless `srid` is given), and `insertData` /
+ * `batchInsertData` / `updateData` accept them as column values.
+ */
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: GeoJsonPosition }
+  | { type: 'LineString'; coordinates: GeoJsonPosition[] }
+  | { type: 'Polygon'; coordinates: GeoJsonPosition[][] }
+  | { type: 'MultiPoint'; coordinates: GeoJsonPosition[] }
+  | { type: 'MultiLineString'; coordinates: GeoJsonPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJsonPosition[][][] };
+
+/**
+ * A structured condition on a spatial column (`spatial`). Geometries are GeoJSON (points
+ * may be given as `[lng, lat]`) and every geometry and number is bound.
+ *
+ * - `near` — within `meters` of a point, by `ST_Distance_Sphere` (spherical earth).
+ * - `contains` / `within` / `intersects` — `ST_Contains` / `ST_Within` / `ST_Intersects`
+ *   of the column against the geometry.
+ * - `bbox` — the column's bounding rectangle intersects `[minLng, minLat, maxLng, maxLat]`
+ *   (`MBRIntersects`, index-friendly).
+ *
+ * @example
+ * where: [{ spatial: 'location', near: { point: [-1.55, 53.8], meters: 5000 } }]
+ */
+export type SpatialCondition = {
+  /** Spatial column (name or alias) */
+  spatial: string;
+  /** SRID of the column (default 4326, WGS 84) */
+  srid?: number;
+} & (
+  | { near: { point: GeoJsonPosition | GeoJsonGeometry; meters: number } }
+  | { contains: GeoJsonGeometry }
+  | { within: GeoJsonGeometry }
+  | { intersects: GeoJsonGeometry }
+  | { bbox: [number, number, number, number] }
+);
+
+/**
+ * Spatial fields: `{ geojson: column }` selects the column as a GeoJSON geometry
+ * (`ST_AsGeoJSON`); `{ distanceFrom: point, column }` selects the spherical distance in
+ * metres from a point (`ST_Distance_Sphere`) — order by its alias for nearest-first results.
+ */
+export type SpatialField =
+  | { geojson: string }
+  | { column: string; distanceFrom: GeoJsonPosition | GeoJsonGeometry; srid?: number };
+
+/** Full-text search modifier for {@link FullTextMatch}. */
+export type FullTextMode = 'natural' | 'boolean' | 'expansion';
+
+/**
+ * A full-text search over columns covered by a FULLTEXT index:
+ * `MATCH (cols) AGAINST (? [IN NATURAL LANGUAGE MODE | IN BOOLEAN MODE | WITH QUERY EXPANSION])`.
+ * The search string is always bound. Use it as a `where` entry to filter, or as a field to
+ * select the relevance score (then `orderBy` that alias). Build boolean-mode strings from
+ * user input with {@link MySQLORM.toBooleanSearch}.
+ *
+ * @example
+ * fields: { id: 'id', score: { match: ['title', 'body'], against: 'mysql tuning' } },
+ * where: [{ match: ['title', 'body'], against: 'mysql tuning' }],
+ * orderBy: [{ column: 'score', direction: 'DESC' }],
+ */
+export type FullTextMatch = {
+  /** Column(s) of the FULLTEXT index (names or aliases) */
+  match: string | string[];
+  /** Search string (bound as a parameter) */
+  against: string;
+  /** Search modifier (default `'natural'`) */
+  mode?: FullTextMode;
+};
+
+/**
+ * A WHERE entry: a raw SQL string (validated, alias-resolved, values supplied via the
+ * `values` argument), a structured, fully-parameterised condition, a subquery condition,
+ * a full-text match, a JSON or spatial condition, or a nested AND / OR / NOT group of entries.
+ */
+export type WhereEntry =
+  | string
+  | WhereCondition
+  | SubqueryCondition
+  | FullTextMatch
+  | JsonCondition
+  | SpatialCondition
+  | WhereGroup;
+
+/**
+ * A HAVING entry — the same shapes as {@link WhereEntry}. In a structured HAVING condition
+ * the `column` may name an aggregate alias from `fields` (e.g. `orderCount` for
+ * `COUNT(order_id)`), which is referenced by its alias rather than expanded.
+ */
+export type HavingEntry = WhereEntry;
+
+/** The clause a structured condition is being compiled into. */
+type ConditionClause = 'WHERE' | 'HAVING';
+
+/**
+ * A recursive common table expression: an anchor member UNIONed with a recursive member
+ * that references the CTE by name (as its `table` or in `joins`).
+ *
+ * @example
+ * // WITH RECURSIVE `tree` (`id`, `parent_id`, `depth`) AS (... UNION ALL ...)
+ * with: {
+ *   tree: {
+ *     columns: ['id', 'parent_id', 'depth'],
+ *     anchor: {
+ *       table: 'categories',
+ *       idField: 'id',
+ *       fields: { id: 'id', parent_id: 'parent_id', depth: { raw: '0' } },
+ *       where: [{ column: 'parent_id', op: 'IS NULL' }],
+ *     },
+ *     recursive: {
+ *       table: 'categories',
+ *       idField: 'id',
+ *       fields: {
+ *         id: 'categories.id',
+ *         parent_id: 'categories.parent_id',
+ *         depth: { raw: 'tree.depth + 1' },
+ *       },
+ *       joins: [{ type: 'INNER', table: 'tree', on: 'categories.parent_id = tree.id' }],
+ *     },
+ *   },
+ * }
+ */
+export type RecursiveCteConfig = {
+  /** Optional column list for the CTE, e.g. `['id', 'parent_id', 'depth']` */
+  columns?: string[];
+  /** Non-recursive anchor member */
+  anchor: QueryConfig;
+  /** Recursive member — references the CTE by name */
+  recursive: QueryConfig;
+  /** Join the members with UNION DISTINCT instead of UNION ALL (default: false) */
+  distinct?: boolean;
+};
+
+/** A common table expression: a nested query, or a recursive anchor + recursive member. */
+export type CteDefinition = QueryConfig | RecursiveCteConfig;
+
+/**
+ * A structured, parameterised JOIN ON condition.
+ *
+ * `columns` pairs are compared for equality and may use `alias.column` references to the
+ * query's tables and join aliases; `where` entries are ANDed in with their values bound.
+ *
+ * @example
+ * // ON `manager`.`id` = `employees`.`manager_id` AND `manager`.`active` = ?
+ * on: {
+ *   columns: [['manager.id', 'employees.manager_id']],
+ *   where: [{ column: 'manager.active', op: '=', value: true }],
+ * }
+ */
+export type JoinOnConfig = {
+  /** Column pairs compared for equality: `[left, right]` */
+  columns: Array<[string, string]>;
+  /** Extra conditions ANDed into the ON clause */
+  where?: Array<WhereEntry>;
+};
+
+/**
+ * Index hint for a table reference (`USE` / `FORCE` / `IGNORE INDEX`). Index names are
+ * escaped; use `'PRIMARY'` for the primary key. An empty `indexes` list is only valid for
+ * `USE` (`USE INDEX ()` — use no indexes).
+ *
+ * @example
+ * // FORCE INDEX FOR ORDER BY (`idx_created_at`)
+ * { type: 'FORCE', indexes: ['idx_created_at'], for: 'ORDER BY' }
+ */
+export type IndexHint = {
+  type: 'USE' | 'FORCE' | 'IGNORE';
+  indexes: string[];
+  /** Restrict the hint to finding rows for joins, sorting or grouping */
+  for?: 'JOIN' | 'ORDER BY' | 'GROUP BY';
+};
+
+/** JOIN types supported by {@link JoinConfig}. */
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'CROSS' | 'STRAIGHT_JOIN';
+
+/**
+ * JOIN clause configuration. `on` is required for INNER / LEFT / RIGHT joins and optional
+ * for CROSS and STRAIGHT_JOIN. Give the joined table an `alias` to join the same table more
+ * than once (e.g. self-joins).
+ */
+export type JoinConfig = {
+  type: JoinType;
+  table: string;
+  /** Table alias (`JOIN table AS alias`) */
+  alias?: string;
+  /** Raw ON clause (validated) or a structured, parameterised {@link JoinOnConfig} */
+  on?: string | JoinOnConfig;
+  /** Index hints for the joined table */
+  indexHints?: IndexHint[];
 };
 
 /**
- * A WHERE entry: either a raw SQL string (validated, alias-resolved, values supplied
- * via the `values` argument) or a structured, fully-parameterised condition.
+ * Set operators for combining queries. `INTERSECT` and `EXCEPT` require MySQL 8.0.31+.
  */
-export type WhereEntry = string | WhereCondition;
+export type SetOperator =
+  | 'UNION'
+  | 'UNION ALL'
+  | 'INTERSECT'
+  | 'INTERSECT ALL'
+  | 'EXCEPT'
+  | 'EXCEPT ALL';
+
+/** A query combined with the main query by a set operator. */
+export type SetOperation = {
+  type: SetOperator;
+  query: QueryConfig;
+};
+
+/**
+ * Locking read configuration: `FOR UPDATE` / `FOR SHARE`, optionally restricted to some
+ * tables (`OF ...`) and with `NOWAIT` or `SKIP LOCKED`. Locking reads must run on a
+ * {@link Transaction} — the locks are released when it commits or rolls back.
+ */
+export type LockConfig =
+  | 'update'
+  | 'share'
+  | {
+      mode: 'update' | 'share';
+      /** Fail immediately instead of waiting for rows locked by other transactions */
+      nowait?: boolean;
+      /** Skip rows locked by other transactions */
+      skipLocked?: boolean;
+      /** Lock only rows read from these tables, join aliases or CTEs of the query */
+      of?: string | string[];
+    };
+
+/**
+ * Optimizer hint emitted in the query's `SELECT /*+ ... *\/` comment. Hints are built from
+ * typed parts (table and index names must be plain identifiers), never from raw SQL.
+ * `tables` / `table` refer to table names or aliases of the query.
+ *
+ * @example
+ * optimizerHints: [
+ *   { type: 'MAX_EXECUTION_TIME', ms: 2000 },
+ *   { type: 'JOIN_ORDER', tables: ['orders', 'customers'] },
+ *   { type: 'NO_RANGE_OPTIMIZATION', table: 'orders', indexes: ['idx_status'] },
+ * ]
+ */
+export type OptimizerHint =
+  | {
+      /** Abort the statement after `ms` milliseconds (honoured on top-level SELECTs only) */
+      type: 'MAX_EXECUTION_TIME';
+      ms: number;
+    }
+  | {
+      /** Join-order hints; `JOIN_FIXED_ORDER` takes no tables */
+      type: 'JOIN_ORDER' | 'JOIN_PREFIX' | 'JOIN_SUFFIX' | 'JOIN_FIXED_ORDER';
+      tables?: string[];
+    }
+  | {
+      /** Table-level hints; with no `tables` they apply to every table of the query */
+      type:
+        | 'BKA'
+        | 'NO_BKA'
+        | 'BNL'
+        | 'NO_BNL'
+        | 'HASH_JOIN'
+        | 'NO_HASH_JOIN'
+        | 'MERGE'
+        | 'NO_MERGE'
+        | 'DERIVED_CONDITION_PUSHDOWN'
+        | 'NO_DERIVED_CONDITION_PUSHDOWN';
+      tables?: string[];
+    }
+  | {
+      /** Index-level hints; with no `indexes` they apply to every index of `table` */
+      type:
+        | 'INDEX'
+        | 'NO_INDEX'
+        | 'JOIN_INDEX'
+        | 'NO_JOIN_INDEX'
+        | 'GROUP_INDEX'
+        | 'NO_GROUP_INDEX'
+        | 'ORDER_INDEX'
+        | 'NO_ORDER_INDEX'
+        | 'INDEX_MERGE'
+        | 'NO_INDEX_MERGE'
+        | 'MRR'
+        | 'NO_MRR'
+        | 'NO_ICP'
+        | 'NO_RANGE_OPTIMIZATION'
+        | 'SKIP_SCAN'
+        | 'NO_SKIP_SCAN';
+      table: string;
+      indexes?: string[];
+    };
 
 /**
  * Query configuration interface for building dynamic SQL queries
  */
 export type QueryConfig<T extends Record<string, any> = Record<string, any>> = {
+  /**
+   * Common table expressions, keyed by CTE name. Each CTE can be referenced as the `table`
+   * or in `joins` of this query; a {@link RecursiveCteConfig} emits `WITH RECURSIVE`.
+   */
+  with?: { [name: string]: CteDefinition };
   /**
    * Field mappings from query alias (the key) to a database column/expression.
    *
@@ -129,24 +704,27 @@ export type QueryConfig<T extends Record<string, any> = Record<string, any>> = {
   idField: string;
   /** Table name(s) to query from */
   table: Array<string> | string;
+  /** Index hints for the FROM table (requires a single `table`) */
+  indexHints?: IndexHint[];
+  /** Optimizer hints, emitted as `SELECT /*+ ... *\/` */
+  optimizerHints?: OptimizerHint[];
   /** JOIN clauses configuration */
-  joins?: Array<{
-    type: 'INNER' | 'LEFT' | 'RIGHT';
-    table: string;
-    on: string;
-  }>;
-  /** WHERE clause conditions — raw SQL strings and/or structured conditions (AND-joined) */
+  joins?: Array<JoinConfig>;
+  /** WHERE clause conditions — raw SQL strings, structured conditions and/or groups (AND-joined) */
   where?: Array<WhereEntry>;
   /** WHERE IN clause conditions */
   whereIn?: {
-    [key: string]: Array<string | number | boolean | null>;
+    [key: string]: BindValue[];
   };
   /** WHERE NOT IN clause conditions */
   whereNotIn?: {
-    [key: string]: Array<string | number | boolean | null>;
+    [key: string]: BindValue[];
   };
-  /** HAVING clause conditions (supports operators like >, <, >=, <=, =) */
-  having?: Array<string>;
+  /**
+   * HAVING clause conditions — raw SQL strings, structured conditions and/or groups
+   * (AND-joined). Structured conditions may reference aggregate aliases from `fields`.
+   */
+  having?: Array<HavingEntry>;
   /** Maximum number of records to return */
   limit?: number;
   /** Number of records to skip */
@@ -155,12 +733,36 @@ export type QueryConfig<T extends Record<string, any> = Record<string, any>> = {
   orderBy?: OrderByConfig;
   /** Sort direction (only used when orderBy is string or string[]) */
   orderDirection?: 'ASC' | 'DESC';
-  /** GROUP BY field(s) */
+  /** GROUP BY field(s) - supports aliases */
   groupBy?: Array<string> | string;
-  /** UNION queries */
+  /** Add `WITH ROLLUP` super-aggregate rows to the GROUP BY */
+  rollup?: boolean;
+  /**
+   * UNION queries — shorthand for `setOperations` entries of type `'UNION'`, applied first.
+   * `orderBy` / `limit` / `offset` apply to the combined result.
+   */
   union?: Array<QueryConfig>;
+  /**
+   * Queries combined with this one by UNION [ALL] / INTERSECT / EXCEPT, in order. Each
+   * branch is parenthesised; `orderBy` / `limit` / `offset` apply to the combined result
+   * (ORDER BY columns are resolved to this query's result aliases).
+   */
+  setOperations?: Array<SetOperation>;
   /** Use DISTINCT in SELECT */
   distinct?: boolean;
+  /** Locking read (`FOR UPDATE` / `FOR SHARE`); requires a transaction */
+  lock?: LockConfig;
+  /**
+   * Order results by spherical distance (`ST_Distance_Sphere`) from a point — nearest first
+   * by default. Takes precedence over `orderBy`.
+   */
+  orderByDistance?: {
+    column: string;
+    from: GeoJsonPosition | GeoJsonGeometry;
+    direction?: 'ASC' | 'DESC';
+    /** SRID of the column (default 4326) */
+    srid?: number;
+  };
   /** Order results by vector distance from a query vector (MySQL 9.0+) */
   orderByVector?: {
     column: string;
@@ -177,8 +779,24 @@ export type QueryConfig<T extends Record<string, any> = Record<string, any>> = {
 export type FieldMap = { [alias: string]: FieldValue };
 
 /** Extract the value type of a single selected field: the `V` of a {@link col} typed
- *  column, otherwise `unknown` (a plain column string / raw SQL / subquery). */
-export type InferFieldValue<F> = F extends TypedColumn<infer V> ? V : unknown;
+ *  column or {@link JsonPathField}, the result type of a {@link WindowField}, `number` for a
+ *  {@link FullTextMatch} relevance score, the GeoJSON / distance of a {@link SpatialField},
+ *  otherwise `unknown` (a plain column
+ *  string / raw SQL / subquery). */
+export type InferFieldValue<F, B extends BigNumbersMode = 'number'> =
+  F extends TypedColumn<infer V>
+    ? V
+    : F extends WindowField<infer Fn>
+      ? InferWindowValue<Fn, B>
+      : F extends FullTextMatch
+        ? number
+        : F extends JsonPathField<infer V>
+          ? V
+          : F extends { geojson: string }
+            ? GeoJsonGeometry | null
+            : F extends { distanceFrom: unknown }
+              ? number | null
+              : unknown;
 
 /**
  * Row type inferred from a {@link FieldMap}: one property per selected alias.
@@ -188,17 +806,440 @@ export type InferFieldValue<F> = F extends TypedColumn<infer V> ? V : unknown;
  * autocomplete and typo-catching, and can pass an explicit row type to override entirely
  * (see {@link MySQLORM.getData}).
  */
-export type InferRow<F extends FieldMap> = { [K in keyof F]: InferFieldValue<F[K]> };
+export type InferRow<F extends FieldMap, B extends BigNumbersMode = 'number'> = {
+  [K in keyof F]: InferFieldValue<F[K], B>;
+};
 
 /**
  * Result row resolution: when an explicit row type `T` is supplied it wins; otherwise
  * the row shape is inferred from the selected `fields`.
  */
-export type ResolvedRow<T, F extends FieldMap> = unknown extends T ? InferRow<F> : T;
+export type ResolvedRow<
+  T,
+  F extends FieldMap,
+  B extends BigNumbersMode = 'number',
+> = unknown extends T ? InferRow<F, B> : T;
 
 /** A {@link QueryConfig} whose `fields` map is captured as `F` for result-type inference. */
 export type InferredQueryConfig<F extends FieldMap> = Omit<QueryConfig, 'fields'> & { fields: F };
 
+/**
+ * Column names accepted by a {@link TypedQueryConfig}: the aliases selected in `F` plus the
+ * columns declared in the table schema `S`.
+ */
+export type ColumnName<F extends FieldMap, S = Record<never, never>> = Extract<
+  keyof F | keyof S,
+  string
+>;
+
+/**
+ * TypeScript value type of a column of a {@link TypedQueryConfig}: an alias's inferred
+ * field type (e.g. from {@link col}), else its type in the schema `S`. Types that cannot be
+ * bound as a condition value (or are unknown) widen to {@link WhereScalar}.
+ */
+export type ColumnValue<F extends FieldMap, S, K extends string> = BindableValue<
+  K extends keyof F ? InferFieldValue<F[K]> : K extends keyof S ? S[K] : unknown
+>;
+
+/** `V` when every member is a {@link WhereScalar}, otherwise `WhereScalar`. */
+type BindableValue<V> = unknown extends V
+  ? WhereScalar
+  : [V] extends [WhereScalar]
+    ? V
+    : WhereScalar;
+
+/** Blocks inference of `T` from the position it appears in (`NoInfer` for TypeScript < 5.4). */
+type NoInferType<T> = [T][T extends unknown ? 0 : never];
+
+/**
+ * A {@link WhereCondition} whose `column` must be a {@link ColumnName} and whose `value`
+ * takes that column's {@link ColumnValue} type (an array for `IN`, a tuple for `BETWEEN`).
+ */
+export type TypedWhereCondition<F extends FieldMap, S = Record<never, never>> = {
+  [K in ColumnName<F, S>]:
+    | {
+        column: K;
+        op: '=' | '!=' | '<>' | '<' | '>' | '<=' | '>=' | '<=>';
+        value: ColumnValue<F, S, K>;
+      }
+    | { column: K; op: 'IN' | 'NOT IN'; value: ColumnValue<F, S, K>[] }
+    | {
+        column: K;
+        op: 'BETWEEN' | 'NOT BETWEEN';
+        value: [ColumnValue<F, S, K>, ColumnValue<F, S, K>];
+      }
+    | { column: K; op: 'IS NULL' | 'IS NOT NULL' }
+    | {
+        column: K;
+        op:
+          | 'LIKE'
+          | 'NOT LIKE'
+          | 'STARTS WITH'
+          | 'ENDS WITH'
+          | 'CONTAINS'
+          | 'ISTARTS WITH'
+          | 'IENDS WITH'
+          | 'ICONTAINS';
+        value: string;
+        collation?: string;
+      };
+}[ColumnName<F, S>];
+
+/** A {@link WhereEntry} whose structured conditions (also inside groups) are column-checked. */
+export type TypedWhereEntry<F extends FieldMap, S = Record<never, never>> =
+  | string
+  | TypedWhereCondition<F, S>
+  | SubqueryCondition
+  | FullTextMatch
+  | JsonCondition
+  | SpatialCondition
+  | { and: TypedWhereEntry<F, S>[] }
+  | { or: TypedWhereEntry<F, S>[] }
+  | { not: TypedWhereEntry<F, S> };
+
+/**
+ * With a table schema, a `fields` entry naming a bare column must be one of the schema's
+ * columns. Qualified names (`t.column`), expressions and other field kinds are not checked.
+ */
+type SchemaFieldCheck<F extends FieldMap, S> = [keyof S] extends [never]
+  ? unknown
+  : {
+      [K in keyof F]: F[K] extends string
+        ? (keyof S & string) | `${string}${'.' | '(' | ' ' | '`'}${string}`
+        : F[K];
+    };
+
+/**
+ * A {@link QueryConfig} checked at compile time: structured `where` / `having` conditions,
+ * `whereIn` / `whereNotIn` keys, `orderBy` and `groupBy` may only name aliases selected in
+ * `fields` or columns of the optional table schema `S`, and condition values are typed by
+ * column. With a schema, bare column names in `fields` must be schema columns too. Build one
+ * with {@link defineQuery}.
+ */
+export type TypedQueryConfig<F extends FieldMap, S = Record<never, never>> = Omit<
+  QueryConfig,
+  'fields' | 'where' | 'having' | 'whereIn' | 'whereNotIn' | 'orderBy' | 'groupBy'
+> & {
+  fields: F & SchemaFieldCheck<NoInferType<F>, S>;
+  where?: TypedWhereEntry<NoInferType<F>, S>[];
+  having?: TypedWhereEntry<NoInferType<F>, S>[];
+  whereIn?: { [K in ColumnName<NoInferType<F>, S>]?: ColumnValue<F, S, K>[] };
+  whereNotIn?: { [K in ColumnName<NoInferType<F>, S>]?: ColumnValue<F, S, K>[] };
+  orderBy?:
+    | ColumnName<NoInferType<F>, S>
+    | ColumnName<NoInferType<F>, S>[]
+    | { column: ColumnName<NoInferType<F>, S>; direction?: 'ASC' | 'DESC' }[];
+  groupBy?: ColumnName<NoInferType<F>, S> | ColumnName<NoInferType<F>, S>[];
+};
+
+/**
+ * Opt into compile-time column checking for a query. Returns an identity function whose
+ * argument is a {@link TypedQueryConfig}: a typo'd column in `where`, `orderBy`, `whereIn`
+ * or `groupBy` — or a value of the wrong type — is a compile error rather than a MySQL
+ * error at runtime. Pass a table schema to also allow (and type) columns that are not
+ * selected, and to check the bare column names in `fields`. The result is a plain config
+ * for `getData`, `getFirst` and friends.
+ *
+ * @example
+ * type UserRow = {
+ *   user_id: number;
+ *   full_name: string;
+ *   status: 'active' | 'banned';
+ *   created_at: string;
+ * };
+ *
+ * const active = defineQuery<UserRow>()({
+ *   table: 'users',
+ *   idField: 'user_id',
+ *   fields: { id: col<number>('user_id'), name: 'full_name' },
+ *   where: [{ column: 'status', op: '=', value: 'active' }], // value: 'active' | 'banned'
+ *   orderBy: [{ column: 'created_at', direction: 'DESC' }],
+ * });
+ * const { rows } = await orm.getData(active);
+ *
+ * @returns A function that returns its (type-checked) config unchanged
+ */
+export function defineQuery<S extends Record<string, unknown> = Record<never, never>>(): <
+  F extends FieldMap,
+>(
+  config: TypedQueryConfig<F, S>
+) => InferredQueryConfig<F> {
+  return <F extends FieldMap>(config: TypedQueryConfig<F, S>) =>
+    config as unknown as InferredQueryConfig<F>;
+}
+
+/**
+ * One aggregate metric for {@link MySQLORM.aggregate}: a single function applied to a column
+ * (or a `fields` alias). The column may be a {@link col} typed column to type `min` / `max`.
+ * `count` accepts `'*'`.
+ */
+export type AggregateMetric =
+  | { sum: string | TypedColumn }
+  | { avg: string | TypedColumn }
+  | { min: string | TypedColumn }
+  | { max: string | TypedColumn }
+  | { count: string | TypedColumn }
+  | { countDistinct: string | TypedColumn };
+
+/**
+ * Result type of an {@link AggregateMetric}: counts are numbers, sums and averages are numbers
+ * or `null` (no rows), and `min` / `max` take the typed column's value type.
+ */
+export type InferAggregateValue<M> = M extends { count: unknown } | { countDistinct: unknown }
+  ? number
+  : M extends { sum: unknown } | { avg: unknown }
+    ? number | null
+    : M extends { min: TypedColumn<infer V> } | { max: TypedColumn<infer V> }
+      ? V | null
+      : unknown;
+
+/**
+ * Aggregate query configuration for {@link MySQLORM.aggregate}. Each `groupBy` entry (a
+ * column, or an alias defined in `fields`) is selected under its own name alongside the
+ * `metrics`; `having` and `orderBy` may reference metric aliases.
+ */
+export type AggregateConfig<
+  M extends { [alias: string]: AggregateMetric } = { [alias: string]: AggregateMetric },
+  G extends string = string,
+  F extends FieldMap = FieldMap,
+> = Pick<
+  QueryConfig,
+  | 'with'
+  | 'table'
+  | 'joins'
+  | 'indexHints'
+  | 'optimizerHints'
+  | 'where'
+  | 'whereIn'
+  | 'whereNotIn'
+  | 'having'
+  | 'orderBy'
+  | 'orderDirection'
+  | 'limit'
+  | 'offset'
+> & {
+  /** Aliases for grouping columns/expressions, referenced by name in `groupBy` */
+  fields?: F;
+  /** Columns or `fields` aliases to group by; each is returned on the result rows */
+  groupBy?: G | G[];
+  /** Add super-aggregate rows (`WITH ROLLUP`); their group columns are `null` */
+  rollup?: boolean;
+  /** Metrics to compute, keyed by result alias */
+  metrics: M;
+};
+
+/** A row returned by {@link MySQLORM.aggregate}: the group columns plus typed metrics. */
+export type AggregateRow<
+  M extends { [alias: string]: AggregateMetric },
+  G extends string,
+  F extends FieldMap = FieldMap,
+> = { [K in G]: K extends keyof F ? InferFieldValue<F[K]> : unknown } & {
+  [K in keyof M]: InferAggregateValue<M[K]>;
+};
+
+/**
+ * Keyset (cursor) pagination options for {@link MySQLORM.getData}.
+ *
+ * Pass `cursor: {}` for the first page, then the `nextCursor` / `prevCursor` of a previous
+ * page as `after` / `before`. Cursors are opaque strings — treat them as tokens, not data.
+ */
+export type CursorPagination = {
+  /** Return the page that follows this cursor (a previous page's `nextCursor`). */
+  after?: string | null;
+  /** Return the page that precedes this cursor (a previous page's `prevCursor`). */
+  before?: string | null;
+};
+
+/**
+ * How {@link MySQLORM.getData} computes `count`:
+ *
+ * - `'exact'` — a separate `COUNT(*)` query, run alongside the rows query (the default).
+ * - `'window'` — `COUNT(*) OVER()` selected with the rows, in a single round trip. If the
+ *   page is empty (e.g. an offset past the end) it falls back to `'exact'`.
+ * - `'estimate'` — the optimizer's row estimate from `EXPLAIN`, or `information_schema.TABLES`
+ *   for an unfiltered single-table query. Fast, but approximate.
+ * - `'none'` — no count; `count` is `-1`.
+ */
+export type CountStrategy = 'exact' | 'window' | 'estimate' | 'none';
+
+/**
+ * Options for {@link MySQLORM.getData}
+ */
+export type GetDataOptions = {
+  /** How to compute `count` (default `'exact'`); see {@link CountStrategy} */
+  count?: CountStrategy;
+  /** Skip the COUNT query and return `count: -1` (same as `count: 'none'`) */
+  skipCount?: boolean;
+  /** Use keyset (cursor) pagination instead of `offset` (requires `limit`) */
+  cursor?: CursorPagination;
+  /** Run the read on this transaction's connection (required for locking reads) */
+  transaction?: Transaction;
+};
+
+/** A page of rows returned by cursor-paginated {@link MySQLORM.getData} calls. */
+export type CursorPage<R> = {
+  rows: R[];
+  count: number;
+  /** The strategy that produced `count` */
+  countStrategy: CountStrategy;
+  /** Cursor for the following page, or `null` when this is the last page */
+  nextCursor: string | null;
+  /** Cursor for the preceding page, or `null` when this is the first page */
+  prevCursor: string | null;
+};
+
+/**
+ * Options for {@link MySQLORM.stream}
+ */
+export type StreamOptions = {
+  /**
+   * Abort the query: iteration rejects with the signal's reason (an `AbortError` where the
+   * runtime's `AbortSignal` has none) and the connection is closed
+   */
+  signal?: AbortSignal;
+  /** Rows buffered ahead of the consumer before reading from the server pauses (default 16) */
+  highWaterMark?: number;
+};
+
+/**
+ * Options for {@link MySQLORM.eachChunk}
+ */
+export type EachChunkOptions = {
+  /** Rows per chunk */
+  size: number;
+  /**
+   * Column(s) to walk by, ascending — the `idField` by default. Each must be selected in
+   * `fields`; the `idField` is appended as a tiebreaker when not already included.
+   */
+  key?: string | string[];
+  /** Chunks processed at the same time (default 1). Chunks are still read in key order. */
+  concurrency?: number;
+  /** Resume after a `checkpoint` reported by an earlier run */
+  resumeFrom?: string | null;
+  /** Called after each chunk once it and every chunk before it have been processed */
+  onProgress?: (progress: ChunkProgress) => void | Promise<void>;
+  /** Run each chunk's callback in its own transaction, committed when the callback resolves */
+  transaction?: boolean;
+};
+
+/**
+ * Progress of an {@link MySQLORM.eachChunk} run. `checkpoint` marks the end of the last
+ * processed chunk: pass it as `resumeFrom` to continue from there.
+ */
+export type ChunkProgress = {
+  /** Chunks processed so far */
+  chunks: number;
+  /** Rows processed so far */
+  rows: number;
+  /** Resume position after the processed chunks, or the starting position if none */
+  checkpoint: string | null;
+};
+
+/** Details of one chunk passed to the {@link MySQLORM.eachChunk} callback. */
+export type ChunkInfo = {
+  /** Zero-based chunk number in this run */
+  index: number;
+  /** Resume position after this chunk */
+  checkpoint: string;
+  /** The chunk's transaction, with `transaction: true` */
+  transaction?: Transaction;
+};
+
+/** SQL and its ordered bind values, as produced by {@link MySQLORM.toSQL} and friends. */
+export type CompiledQuery = {
+  sql: string;
+  values: BindValue[];
+};
+
+/** Options for {@link MySQLORM.toSQL}. */
+export type ToSQLOptions = {
+  /** Compile the COUNT query `getData` runs alongside the rows query */
+  count?: boolean;
+  /**
+   * User values for raw `?` placeholders in WHERE / HAVING strings; they bind after the values
+   * generated for the WITH, SELECT and JOIN clauses and before the generated WHERE values
+   */
+  values?: BindValue[];
+};
+
+/** Options for {@link MySQLORM.explain}. */
+export type ExplainOptions = {
+  /**
+   * Run `EXPLAIN ANALYZE`, which executes the query and reports actual row counts and
+   * timings (MySQL 8.0.18+). Only the `'tree'` format is supported.
+   */
+  analyze?: boolean;
+  /** Plan format: `'json'` (default) or `'tree'` (default with `analyze`) */
+  format?: 'json' | 'tree';
+  /** Explain the COUNT query instead of the rows query */
+  count?: boolean;
+  /** User values for raw `?` placeholders */
+  values?: BindValue[];
+  /** Run on a transaction's connection */
+  transaction?: Transaction;
+};
+
+/** How one table is read in an {@link ExplainResult}. */
+export type ExplainTablePlan = {
+  /** Table name or alias as it appears in the plan */
+  table: string;
+  /** Join/access type, e.g. `ALL` (full table scan), `index`, `range`, `ref`, `eq_ref`, `const` */
+  accessType: string;
+  /** Index used to read the table, if any */
+  key: string | null;
+  /** Indexes the optimizer considered (JSON format only) */
+  possibleKeys: string[];
+  /** Rows examined: estimated per scan, or actual rows × loops with `analyze` */
+  rowsExamined: number | null;
+  /** Estimated percentage of rows kept by the table condition (JSON format only) */
+  filtered: number | null;
+};
+
+/** Structured output of {@link MySQLORM.explain}. */
+export type ExplainResult = {
+  /** The explained SQL and its bind values */
+  sql: string;
+  values: BindValue[];
+  format: 'json' | 'tree';
+  /** Estimated total query cost, when reported */
+  cost: number | null;
+  /** Per-table access, in plan order */
+  tables: ExplainTablePlan[];
+  /** Plan warnings, e.g. full table scans, filesort or temporary tables */
+  warnings: string[];
+  /** The raw plan: the parsed JSON document or the tree text */
+  plan: Record<string, unknown> | string;
+};
+
+/** `EXPLAIN FORMAT=TREE` table access descriptions and the access type each corresponds to. */
+const TREE_ACCESS_TYPES: ReadonlyArray<[string, string]> = [
+  ['Single-row covering index lookup', 'eq_ref'],
+  ['Single-row index lookup', 'eq_ref'],
+  ['Covering index range scan', 'range'],
+  ['Index range scan', 'range'],
+  ['Covering index lookup', 'ref'],
+  ['Index lookup', 'ref'],
+  ['Covering index scan', 'index'],
+  ['Index scan', 'index'],
+  ['Full-text index search', 'fulltext'],
+  ['Constant row from', 'const'],
+  ['Table scan', 'ALL'],
+];
+
+/** A resolved keyset sort key: the column as written in the config, its row alias and direction. */
+type KeysetSortKey = { column: string; alias: string; direction: 'ASC' | 'DESC' };
+
+/**
+ * A built SELECT: its SQL, the generated bind values in placeholder order, and the index in
+ * those values at which the caller's values for raw `?` placeholders belong (the start of the
+ * WHERE clause's values).
+ */
+type BuiltQuery = {
+  query: string;
+  additionalValues: BindValue[];
+  userValuesAt: number;
+};
+
 /**
  * Distance metric for vector similarity search (MySQL 9.0+)
  * - 'cosine': Cosine distance — best for text/semantic embeddings
@@ -367,14 +1408,21 @@ export type CreateTableConfig = {
   dropIfExists?: boolean;
 };
 
+/**
+ * A column value for insert / update: a scalar, a {@link GeoJsonGeometry} for spatial
+ * columns (written via `ST_GeomFromGeoJSON(?)`), or an array / object, written as JSON text
+ * unless the column has a write converter (see {@link TypeConversionConfig}).
+ */
+export type WriteValue = JsonValue | bigint | Date | GeoJsonGeometry;
+
 /**
  * Update data configuration
  */
 type UpdateDataConfig = {
   table: string;
-  data: { [k: string]: string | number | boolean | null };
+  data: { [k: string]: WriteValue };
   where: Array<string>;
-  values?: Array<string | number | boolean | null>;
+  values?: BindValue[];
 };
 
 /**
@@ -384,15 +1432,146 @@ export interface JsonObject {
   [key: string]: string | number | null | JsonObject;
 }
 
+/** Runtime allow-list for {@link WindowFunction}. */
+const WINDOW_FUNCTIONS: ReadonlySet<string> = new Set<WindowFunction>([
+  'ROW_NUMBER',
+  'RANK',
+  'DENSE_RANK',
+  'PERCENT_RANK',
+  'CUME_DIST',
+  'NTILE',
+  'LAG',
+  'LEAD',
+  'FIRST_VALUE',
+  'LAST_VALUE',
+  'NTH_VALUE',
+  'SUM',
+  'AVG',
+  'COUNT',
+  'MIN',
+  'MAX',
+]);
+
+/** SQL keyword emitted for each {@link JoinType}. */
+const JOIN_KEYWORDS: Readonly<Record<JoinType, string>> = {
+  INNER: 'INNER JOIN',
+  LEFT: 'LEFT JOIN',
+  RIGHT: 'RIGHT JOIN',
+  CROSS: 'CROSS JOIN',
+  STRAIGHT_JOIN: 'STRAIGHT_JOIN',
+};
+
+/** Argument shape of each {@link OptimizerHint} type (doubles as the runtime allow-list). */
+const OPTIMIZER_HINT_KINDS: Readonly<
+  Record<OptimizerHint['type'], 'timeout' | 'joinOrder' | 'table' | 'index'>
+> = {
+  MAX_EXECUTION_TIME: 'timeout',
+  JOIN_ORDER: 'joinOrder',
+  JOIN_PREFIX: 'joinOrder',
+  JOIN_SUFFIX: 'joinOrder',
+  JOIN_FIXED_ORDER: 'joinOrder',
+  BKA: 'table',
+  NO_BKA: 'table',
+  BNL: 'table',
+  NO_BNL: 'table',
+  HASH_JOIN: 'table',
+  NO_HASH_JOIN: 'table',
+  MERGE: 'table',
+  NO_MERGE: 'table',
+  DERIVED_CONDITION_PUSHDOWN: 'table',
+  NO_DERIVED_CONDITION_PUSHDOWN: 'table',
+  INDEX: 'index',
+  NO_INDEX: 'index',
+  JOIN_INDEX: 'index',
+  NO_JOIN_INDEX: 'index',
+  GROUP_INDEX: 'index',
+  NO_GROUP_INDEX: 'index',
+  ORDER_INDEX: 'index',
+  NO_ORDER_INDEX: 'index',
+  INDEX_MERGE: 'index',
+  NO_INDEX_MERGE: 'index',
+  MRR: 'index',
+  NO_MRR: 'index',
+  NO_ICP: 'index',
+  NO_RANGE_OPTIMIZATION: 'index',
+  SKIP_SCAN: 'index',
+  NO_SKIP_SCAN: 'index',
+};
+
 /**
- * Core dangerous SQL patterns (DDL/DML, comments, multi-statement, time-based probes).
- * Hoisted to module scope so they are compiled once, not re-allocated per clause.
- * NOTE: these are intentionally NOT global (`/g`) — a shared global regex is stateful
- * under `.test()` (advancing `lastIndex`) and would intermittently miss matches.
+ * MySQL JSON path syntax: `$` followed by member (`.key`, `."quoted key"`, `.*`), array
+ * (`[0]`, `[*]`, `[last]`, `[1 to 3]`) and `**` legs.
  */
-const CORE_SQL_PATTERNS: readonly RegExp[] = [
-  /;/, // Multiple statements
-  /--/, // SQL comments
+const JSON_PATH_PATTERN =
+  /^\$(?:\.(?:[A-Za-z_$][\w$]*|"[^"\\]*"|\*)|\[\s*(?:\d+|\*|last(?:\s*-\s*\d+)?)(?:\s+to\s+(?:\d+|last(?:\s*-\s*\d+)?))?\s*\]|\*\*)*$/;
+
+/** GeoJSON geometry types accepted by {@link GeoJsonGeometry}. */
+const GEOJSON_TYPES: ReadonlySet<string> = new Set<GeoJsonGeometry['type']>([
+  'Point',
+  'LineString',
+  'Polygon',
+  'MultiPoint',
+  'MultiLineString',
+  'MultiPolygon',
+]);
+
+/** SQL search modifier for each {@link FullTextMode}. */
+const FULLTEXT_MODIFIERS: Readonly<Record<FullTextMode, string>> = {
+  natural: 'IN NATURAL LANGUAGE MODE',
+  boolean: 'IN BOOLEAN MODE',
+  expansion: 'WITH QUERY EXPANSION',
+};
+
+/**
+ * Wildcard placement and case sensitivity for each pattern-matching {@link WhereOperator}.
+ * The value is escaped and wrapped in `%` on the flagged sides.
+ */
+const PATTERN_OPERATORS: Readonly<
+  Record<string, { leading: boolean; trailing: boolean; caseInsensitive: boolean }>
+> = {
+  'STARTS WITH': { leading: false, trailing: true, caseInsensitive: false },
+  'ENDS WITH': { leading: true, trailing: false, caseInsensitive: false },
+  CONTAINS: { leading: true, trailing: true, caseInsensitive: false },
+  'ISTARTS WITH': { leading: false, trailing: true, caseInsensitive: true },
+  'IENDS WITH': { leading: true, trailing: false, caseInsensitive: true },
+  ICONTAINS: { leading: true, trailing: true, caseInsensitive: true },
+};
+
+/** Collation used by the case-insensitive pattern operators when none is given. */
+const DEFAULT_CI_COLLATION = 'utf8mb4_0900_ai_ci';
+
+/** Result alias of the `COUNT(*) OVER()` column added by the `'window'` count strategy. */
+const WINDOW_COUNT_ALIAS = '__window_count';
+
+/** SQL aggregate function for each {@link AggregateMetric} key. */
+const AGGREGATE_METRICS: Readonly<Record<string, string>> = {
+  sum: 'SUM',
+  avg: 'AVG',
+  min: 'MIN',
+  max: 'MAX',
+  count: 'COUNT',
+  countDistinct: 'COUNT',
+};
+
+/** Runtime allow-list for {@link SetOperator}. */
+const SET_OPERATORS: ReadonlySet<string> = new Set<SetOperator>([
+  'UNION',
+  'UNION ALL',
+  'INTERSECT',
+  'INTERSECT ALL',
+  'EXCEPT',
+  'EXCEPT ALL',
+]);
+
+/**
+ * Core dangerous SQL patterns (DDL/DML, comments, multi-statement, time-based probes).
+ * Hoisted to module scope so they are compiled once, not re-allocated per clause.
+ * NOTE: these are intentionally NOT global (`/g`) — a shared global regex is stateful
+ * under `.test()` (advancing `lastIndex`) and would intermittently miss matches.
+ */
+const CORE_SQL_PATTERNS: readonly RegExp[] = [
+  /;/, // Multiple statements
+  /--/, // SQL comments
   /\/\*/, // Block comments
   /#/, // MySQL line comments
   /\bUNION\b/i,
@@ -439,16 +1618,27 @@ const STRICT_SQL_PATTERNS: readonly RegExp[] = [
 /**
  * MySQL ORM class providing database operations and query building
  */
-export class MySQLORM {
+export class MySQLORM<B extends BigNumbersMode = 'number'> {
   private pool: mysql.Pool;
   private isDev: boolean;
+  private typeConversion: TypeConversionConfig;
+  private bigNumbers: BigNumbersMode;
+  private srids: { [column: string]: number };
 
   /**
    * Initialise MySQL ORM with configuration
    * @param config MySQL connection configuration
    */
-  constructor(config: MySQLORMConfig) {
+  constructor(config: MySQLORMConfig<B>) {
     this.isDev = process.env.NODE_ENV === 'development';
+    this.bigNumbers = config.bigNumbers ?? 'number';
+    this.srids = config.srids ?? {};
+    const typeConversion = config.typeConversion ?? {};
+    // In bigint mode BIGINT columns are read through the bigint converter, unless overridden
+    this.typeConversion =
+      this.bigNumbers === 'bigint'
+        ? { ...typeConversion, types: { LONGLONG: converters.bigint, ...typeConversion.types } }
+        : typeConversion;
 
     this.pool = mysql.createPool({
       host: config.host,
@@ -463,15 +1653,117 @@ export class MySQLORM {
       queueLimit: config.queueLimit ?? 0,
       enableKeepAlive: config.enableKeepAlive ?? true,
       keepAliveInitialDelay: config.keepAliveInitialDelay ?? 0,
-      typeCast: function (field, next: () => any) {
-        if (field.type === 'TINY' && field.length === 1) {
-          return field.string() === '1'; // 1 = true, 0 = false
-        }
-        return next();
-      },
+      // Big numbers arrive as exact strings (converted per mode) instead of lossy numbers
+      ...(this.bigNumbers === 'number' ? {} : { supportBigNumbers: true, bigNumberStrings: true }),
+      typeCast: (field, next) => this.castField(field, next),
     });
   }
 
+  /**
+   * Convert a result value on read: a column converter, else a field-type converter, else
+   * TINYINT(1) as boolean (unless disabled), else mysql2's default conversion.
+   * @param field Result field
+   * @param next mysql2's default conversion
+   * @param origin The field's underlying table and column, when the query config is known
+   * @returns The converted value
+   */
+  private castField(
+    field: ResultField,
+    next: () => unknown,
+    origin?: { table: string; column: string }
+  ): unknown {
+    const { types, tinyIntAsBoolean = true } = this.typeConversion;
+    const { table, column } = origin ?? { table: field.table, column: field.name };
+    const converter =
+      this.findColumnConverter([`${table}.${column}`, field.name], 'read') ?? types?.[field.type];
+    if (converter?.read) {
+      return converter.read(field, next);
+    }
+    if (tinyIntAsBoolean && field.type === 'TINY' && field.length === 1) {
+      return field.string() === '1'; // 1 = true, 0 = false
+    }
+    return next();
+  }
+
+  /**
+   * Convert a BIGINT value reported by mysql2 (a number, or a string with big numbers
+   * enabled) to the configured {@link BigNumbersMode}.
+   */
+  private toBigNumber(value: number | string | bigint): BigNumber<B> {
+    switch (this.bigNumbers) {
+      case 'bigint':
+        return BigInt(value) as BigNumber<B>;
+      case 'string':
+        return String(value) as BigNumber<B>;
+      default:
+        return Number(value) as BigNumber<B>;
+    }
+  }
+
+  /**
+   * Find the first converter registered under one of `keys` (in order) that has the given
+   * direction.
+   */
+  private findColumnConverter(
+    keys: string[],
+    direction: 'read' | 'write'
+  ): TypeConverter | undefined {
+    const { columns } = this.typeConversion;
+    if (!columns) return undefined;
+    return keys.map((key) => columns[key]).find((converter) => converter?.[direction]);
+  }
+
+  /**
+   * A per-query `typeCast` for a query's rows. mysql2 reports each result column by its alias
+   * and its table's alias only, so when read converters are registered by `table.column` the
+   * underlying table and column are resolved from the config.
+   * @param config Query configuration the rows query was compiled from
+   * @returns The `typeCast`, or `undefined` when the pool's own is enough
+   */
+  private rowsTypeCast(config: QueryConfig): QueryOptions['typeCast'] {
+    const { columns } = this.typeConversion;
+    const qualified = Object.keys(columns ?? {}).some(
+      (key) => key.includes('.') && columns?.[key]?.read
+    );
+    if (!qualified) return undefined;
+
+    const tables = new Map<string, string>();
+    for (const join of config.joins ?? []) {
+      if (join.alias) tables.set(join.alias, join.table);
+    }
+    const fieldColumns = new Map<string, string>();
+    for (const alias of Object.keys(config.fields)) {
+      const field = config.fields[alias];
+      const column = this.isTypedColumn(field) ? field.__column : field;
+      if (typeof column === 'string' && /^[\w$]+(\.[\w$]+)?$/.test(column)) {
+        fieldColumns.set(alias, column.slice(column.lastIndexOf('.') + 1));
+      }
+    }
+
+    return (field, next) => {
+      const column = fieldColumns.get(field.name);
+      const origin = column ? { table: tables.get(field.table) ?? field.table, column } : undefined;
+      return this.castField(field, next, origin);
+    };
+  }
+
+  /**
+   * Run a query's rows SQL, with the per-query {@link rowsTypeCast} when one is needed.
+   * @param connection Pool or transaction connection
+   * @param sql Compiled rows query
+   * @param values Bind values
+   * @param config Query configuration the SQL was compiled from
+   */
+  private queryRows(
+    connection: mysql.Pool | PoolConnection,
+    sql: string,
+    values: BindValue[],
+    config: QueryConfig
+  ): Promise<[mysql.QueryResult, mysql.FieldPacket[]]> {
+    const typeCast = this.rowsTypeCast(config);
+    return typeCast ? connection.query({ sql, typeCast }, values) : connection.query(sql, values);
+  }
+
   /**
    * Resolve alias to actual column name
    * @param fieldOrAlias Field name or alias from fields map
@@ -498,6 +1790,101 @@ export class MySQLORM {
     return this.isObject(value) && typeof (value as TypedColumn).__column === 'string';
   }
 
+  /** Type guard for a structured {@link WindowField}. */
+  private isWindowField(value: unknown): value is WindowField {
+    return this.isObject(value) && typeof (value as WindowField).window === 'string';
+  }
+
+  /**
+   * Normalise an ORDER BY config into explicit `{ column, direction }` items, splitting a
+   * trailing ASC/DESC off string items and applying `orderDirection` to plain strings.
+   * @param orderBy ORDER BY configuration
+   * @param orderDirection Default direction for string items (default: ASC)
+   * @returns Ordered sort items (columns not yet alias-resolved)
+   */
+  private normaliseOrderBy(
+    orderBy: OrderByConfig | undefined,
+    orderDirection: 'ASC' | 'DESC' = 'ASC'
+  ): Array<{ column: string; direction: 'ASC' | 'DESC' }> {
+    if (!orderBy) return [];
+    const items = Array.isArray(orderBy) ? orderBy : [orderBy];
+    return items.map((item) => {
+      if (typeof item === 'string') {
+        const match = item.match(/^(.*?)\s+(ASC|DESC)$/i);
+        const direction = (match ? match[2]! : orderDirection).toUpperCase() as 'ASC' | 'DESC';
+        return { column: (match ? match[1]! : item).trim(), direction };
+      }
+      return {
+        column: item.column,
+        direction: (item.direction?.toUpperCase() || 'ASC') as 'ASC' | 'DESC',
+      };
+    });
+  }
+
+  /**
+   * Render a structured window-function field as SQL. The function is checked against a
+   * fixed allow-list, columns are alias-resolved and escaped, and numeric arguments and
+   * frame offsets must be non-negative integers — so nothing is concatenated verbatim.
+   * @param field Window field
+   * @param config Query configuration (for alias resolution)
+   * @returns SQL expression (without the `AS alias`)
+   */
+  private buildWindowField(field: WindowField, config: QueryConfig): string {
+    const fn = field.window.toUpperCase();
+    if (!WINDOW_FUNCTIONS.has(fn)) {
+      throw new Error(`Unsupported window function: ${field.window}`);
+    }
+
+    const toInteger = (value: number, context: string): number => {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid ${context}: must be a non-negative integer`);
+      }
+      return value;
+    };
+    const column = (name: string) => escapeId(this.resolveColumnName(name, config));
+
+    const args = (field.args ?? []).map((arg) => {
+      if (typeof arg === 'number') return String(toInteger(arg, 'window function argument'));
+      if (arg === '*' && fn === 'COUNT') return '*';
+      return column(arg);
+    });
+    if (fn === 'COUNT' && args.length === 0) args.push('*');
+
+    const over: string[] = [];
+    if (field.partitionBy) {
+      const partition = Array.isArray(field.partitionBy) ? field.partitionBy : [field.partitionBy];
+      over.push(`PARTITION BY ${partition.map(column).join(', ')}`);
+    }
+    const order = this.normaliseOrderBy(field.orderBy);
+    if (order.length > 0) {
+      over.push(
+        `ORDER BY ${order.map((item) => `${column(item.column)} ${item.direction}`).join(', ')}`
+      );
+    }
+    if (field.frame) {
+      const { unit, start, end } = field.frame;
+      if (unit !== 'ROWS' && unit !== 'RANGE') {
+        throw new Error(`Invalid window frame unit: ${String(unit)}`);
+      }
+      const bound = (b: WindowFrameBound): string => {
+        if (typeof b === 'object') {
+          return 'preceding' in b
+            ? `${toInteger(b.preceding, 'window frame offset')} PRECEDING`
+            : `${toInteger(b.following, 'window frame offset')} FOLLOWING`;
+        }
+        if (!['UNBOUNDED PRECEDING', 'CURRENT ROW', 'UNBOUNDED FOLLOWING'].includes(b)) {
+          throw new Error(`Invalid window frame bound: ${String(b)}`);
+        }
+        return b;
+      };
+      over.push(
+        end ? `${unit} BETWEEN ${bound(start)} AND ${bound(end)}` : `${unit} ${bound(start)}`
+      );
+    }
+
+    return `${fn}(${args.join(', ')}) OVER (${over.join(' ')})`;
+  }
+
   /**
    * Resolve aliases in WHERE clause
    * @param clause WHERE clause string
@@ -538,21 +1925,93 @@ export class MySQLORM {
   }
 
   /**
-   * Build a fully-parameterised SQL fragment from a structured WHERE condition.
+   * Resolve a GROUP BY entry to an escaped SQL reference. An alias of a plain (or typed)
+   * column groups by that column; an alias of an expression, raw SQL or window field is
+   * referenced by name, which MySQL resolves to the select expression.
+   * @param column Column name or alias
+   * @param config Query configuration (for alias resolution)
+   * @returns Escaped GROUP BY reference
+   */
+  private resolveGroupByColumn(column: string, config: QueryConfig): string {
+    const resolved = this.resolveColumnName(column, config);
+    const isExpression =
+      resolved === column
+        ? Object.prototype.hasOwnProperty.call(config.fields, column) &&
+          typeof config.fields[column] !== 'string'
+        : /[(`']/.test(resolved);
+    return escapeId(isExpression ? column : resolved);
+  }
+
+  /**
+   * Resolve the column a structured condition refers to, as an escaped SQL reference.
+   * In WHERE, aliases are expanded to their underlying column. In HAVING, a `fields` alias
+   * is referenced by name — MySQL resolves select aliases there, which is what lets a
+   * condition target an aggregate such as `COUNT(*) AS orderCount`.
+   * @param column Column name or alias
+   * @param config Query configuration (for alias resolution)
+   * @param clauseType Clause the condition is compiled into
+   * @returns Escaped column reference
+   */
+  private resolveConditionColumn(
+    column: string,
+    config: QueryConfig,
+    clauseType: ConditionClause
+  ): string {
+    if (clauseType === 'HAVING' && Object.prototype.hasOwnProperty.call(config.fields, column)) {
+      return escapeId(column);
+    }
+    return escapeId(this.resolveColumnName(column, config));
+  }
+
+  /**
+   * Build a fully-parameterised SQL fragment from a structured WHERE or HAVING condition.
    * The column is alias-resolved and escaped, the operator is validated against a
    * fixed allow-list, and all values are returned as bind parameters — so no user
    * input is ever concatenated into the SQL.
    * @param condition Structured condition
    * @param config Query configuration (for alias resolution)
+   * @param clauseType Clause the condition is compiled into (default: WHERE)
    * @returns The SQL clause and its ordered bind values
    */
   private buildWhereCondition(
     condition: WhereCondition,
-    config: QueryConfig<any>
+    config: QueryConfig<any>,
+    clauseType: ConditionClause = 'WHERE'
   ): { clause: string; values: WhereScalar[] } {
-    const { column, op, value } = condition;
-    const col = escapeId(this.resolveColumnName(column, config));
-    const operator = op.toUpperCase() as WhereOperator;
+    const { column, op, value, collation } = condition;
+    const col = this.resolveConditionColumn(column, config, clauseType);
+    return this.buildComparison(
+      { clause: col, values: [] },
+      column,
+      op,
+      value,
+      clauseType,
+      collation
+    );
+  }
+
+  /**
+   * Apply a validated comparison operator to an already-built SQL expression, binding the
+   * value(s) as parameters.
+   * @param left SQL expression on the left-hand side and the values of its own placeholders,
+   *        bound ahead of the compared value(s) wherever the expression is used
+   * @param column Name of the compared column (for error messages)
+   * @param op Comparison operator
+   * @param value Bound value(s)
+   * @param clauseType Clause the condition is compiled into
+   * @param collation Collation for the case-insensitive pattern operators
+   * @returns The SQL clause and its ordered bind values
+   */
+  private buildComparison(
+    left: { clause: string; values: WhereScalar[] },
+    column: string,
+    op: WhereOperator,
+    value: WhereCondition['value'],
+    clauseType: ConditionClause,
+    collation?: string
+  ): { clause: string; values: WhereScalar[] } {
+    const operator = String(op).toUpperCase() as WhereOperator;
+    const { clause: col, values: colValues } = left;
 
     switch (operator) {
       case '=':
@@ -565,157 +2024,874 @@ export class MySQLORM {
       case '<=>':
       case 'LIKE':
       case 'NOT LIKE': {
-        if (Array.isArray(value)) {
-          throw new Error(`WHERE condition for "${column}" ${operator} expects a single value`);
+        if (Array.isArray(value) || value === undefined) {
+          throw new Error(
+            `${clauseType} condition for "${column}" ${operator} expects a single value`
+          );
         }
-        return { clause: `${col} ${operator} ?`, values: [value as WhereScalar] };
+        return { clause: `${col} ${operator} ?`, values: [...colValues, value] };
       }
       case 'IN':
       case 'NOT IN': {
         if (!Array.isArray(value)) {
-          throw new Error(`WHERE condition for "${column}" ${operator} expects an array value`);
+          throw new Error(
+            `${clauseType} condition for "${column}" ${operator} expects an array value`
+          );
         }
         if (value.length === 0) {
-          // Empty IN () is invalid SQL; emit a constant that matches no/all rows.
+          // Empty IN () is invalid SQL; emit a constant that matches no/all rows. The
+          // left-hand expression is dropped, and its values with it.
           return { clause: operator === 'IN' ? '1 = 0' : '1 = 1', values: [] };
         }
         return {
           clause: `${col} ${operator} (${value.map(() => '?').join(', ')})`,
-          values: value as WhereScalar[],
+          values: [...colValues, ...value],
         };
       }
       case 'IS NULL':
       case 'IS NOT NULL': {
-        return { clause: `${col} ${operator}`, values: [] };
+        return { clause: `${col} ${operator}`, values: colValues };
       }
       case 'BETWEEN':
       case 'NOT BETWEEN': {
         if (!Array.isArray(value) || value.length !== 2) {
           throw new Error(
-            `WHERE condition for "${column}" ${operator} expects a [low, high] tuple`
+            `${clauseType} condition for "${column}" ${operator} expects a [low, high] tuple`
           );
         }
         return {
           clause: `${col} ${operator} ? AND ?`,
-          values: [value[0] as WhereScalar, value[1] as WhereScalar],
+          values: [...colValues, ...value],
         };
       }
+      case 'STARTS WITH':
+      case 'ENDS WITH':
+      case 'CONTAINS':
+      case 'ISTARTS WITH':
+      case 'IENDS WITH':
+      case 'ICONTAINS': {
+        if (typeof value !== 'string') {
+          throw new Error(
+            `${clauseType} condition for "${column}" ${operator} expects a string value`
+          );
+        }
+        const { leading, trailing, caseInsensitive } = PATTERN_OPERATORS[operator]!;
+        const pattern = `${leading ? '%' : ''}${this.escapeLikePattern(value)}${
+          trailing ? '%' : ''
+        }`;
+        let target = col;
+        if (caseInsensitive) {
+          const name = collation ?? DEFAULT_CI_COLLATION;
+          this.validateIdentifier(name, 'collation');
+          target = `${col} COLLATE ${name}`;
+        }
+        return { clause: `${target} LIKE ? ESCAPE '\\\\'`, values: [...colValues, pattern] };
+      }
       default:
-        throw new Error(`Unsupported WHERE operator: ${String(op)}`);
+        throw new Error(`Unsupported ${clauseType} operator: ${String(op)}`);
     }
   }
 
   /**
-   * Validate a SQL clause to prevent SQL injection
-   * @param clause The SQL clause to validate
-   * @param context Description of the clause type for error messages
-   * @throws Error if clause appears to contain dangerous patterns
+   * Escape the LIKE wildcards (`%`, `_`) and the escape character (`\`) so the value
+   * matches literally under `ESCAPE '\\'`.
+   * @param value Literal text to match
+   * @returns The escaped pattern fragment
    */
-  private validateSqlClause(clause: string, context: string): void {
-    for (const pattern of CORE_SQL_PATTERNS) {
-      if (pattern.test(clause)) {
-        throw new Error(`Invalid ${context}: potentially dangerous pattern detected.`);
-      }
+  private escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+
+  /**
+   * Build the SQL fragment for a single WHERE / HAVING entry — a raw string, a structured
+   * condition or a nested AND / OR / NOT group — recursing into groups. Every group is
+   * parenthesised so operator precedence always matches the structure of the config.
+   * @param entry WHERE / HAVING entry
+   * @param config Query configuration (for alias resolution)
+   * @param clauseType Clause the entry is compiled into (default: WHERE)
+   * @returns The SQL clause and its ordered bind values
+   */
+  private buildWhereEntry(
+    entry: WhereEntry,
+    config: QueryConfig,
+    clauseType: ConditionClause = 'WHERE'
+  ): { clause: string; values: WhereScalar[] } {
+    if (typeof entry === 'string') {
+      // Raw SQL string: validate for injection. Values for any `?` placeholders are
+      // supplied via the `values` argument. A leading alias is resolved in WHERE only;
+      // raw HAVING strings are passed through as written.
+      this.validateSqlClause(entry, `${clauseType} clause`);
+      return {
+        clause: clauseType === 'WHERE' ? this.resolveWhereClause(entry, config) : entry,
+        values: [],
+      };
     }
 
-    // Apply strict patterns only for non-raw-SQL contexts
-    if (context !== 'raw SQL field' && context !== 'field expression') {
-      for (const pattern of STRICT_SQL_PATTERNS) {
-        if (pattern.test(clause)) {
-          throw new Error(`Invalid ${context}: potentially dangerous pattern detected.`);
-        }
+    if (this.isObject(entry) && 'not' in entry) {
+      const inner = this.buildWhereEntry(entry.not, config, clauseType);
+      return { clause: `NOT (${inner.clause})`, values: inner.values };
+    }
+
+    if (this.isObject(entry) && ('and' in entry || 'or' in entry)) {
+      const isOr = 'or' in entry;
+      const members = isOr
+        ? (entry as { or: WhereEntry[] }).or
+        : (entry as { and: WhereEntry[] }).and;
+      if (!Array.isArray(members)) {
+        throw new Error(`${clauseType} ${isOr ? 'OR' : 'AND'} group expects an array of entries`);
+      }
+      if (members.length === 0) {
+        // An empty AND is vacuously true; an empty OR matches nothing.
+        return { clause: isOr ? '1 = 0' : '1 = 1', values: [] };
       }
+
+      const clauses: string[] = [];
+      const values: WhereScalar[] = [];
+      for (const member of members) {
+        const built = this.buildWhereEntry(member, config, clauseType);
+        // Raw strings may contain their own AND/OR, so they are parenthesised; structured
+        // conditions and groups are already atomic.
+        clauses.push(typeof member === 'string' ? `(${built.clause})` : built.clause);
+        values.push(...built.values);
+      }
+      return { clause: `(${clauses.join(isOr ? ' OR ' : ' AND ')})`, values };
+    }
+
+    if (this.isFullTextMatch(entry)) {
+      return this.buildFullTextMatch(entry, config);
     }
+
+    if (this.isObject(entry) && 'json' in entry) {
+      return this.buildJsonCondition(entry as JsonCondition, config, clauseType);
+    }
+
+    if (this.isObject(entry) && 'spatial' in entry) {
+      return this.buildSpatialCondition(entry as SpatialCondition, config, clauseType);
+    }
+
+    if (
+      this.isObject(entry) &&
+      ('exists' in entry || 'notExists' in entry || 'subquery' in entry)
+    ) {
+      return this.buildSubqueryCondition(entry as SubqueryCondition, config, clauseType);
+    }
+
+    // Structured condition: fully parameterised, no raw SQL concatenation.
+    return this.buildWhereCondition(entry as WhereCondition, config, clauseType);
   }
 
   /**
-   * Validate that a string is a safe SQL identifier (alphanumeric, underscores, hyphens only)
-   * Used for DDL values like charset, collate, and engine names
-   * @param value The value to validate
-   * @param context Description for error messages
-   * @throws Error if value contains unsafe characters
+   * Validate a JSON path (it is bound as a parameter, but a malformed path is rejected early
+   * with a clear error rather than by the server).
+   * @param path JSON path
+   * @param column JSON column (for error messages)
+   * @returns The path
    */
-  private validateIdentifier(value: string, context: string): void {
-    if (!/^[a-zA-Z0-9_]+$/.test(value)) {
+  private validateJsonPath(path: string, column: string): string {
+    if (typeof path !== 'string' || !JSON_PATH_PATTERN.test(path)) {
+      throw new Error(`Invalid JSON path for "${column}": ${String(path)}`);
+    }
+    return path;
+  }
+
+  /** Type guard for a {@link JsonPathField}. */
+  private isJsonPathField(value: unknown): value is JsonPathField {
+    return this.isObject(value) && typeof value.json === 'string' && 'path' in value;
+  }
+
+  /**
+   * Build the extraction expression for a {@link JsonPathField}.
+   * @param field JSON path field
+   * @param config Query configuration (for alias resolution)
+   * @returns The SQL expression and its bound path
+   */
+  private buildJsonPathField(
+    field: JsonPathField,
+    config: QueryConfig
+  ): { clause: string; values: WhereScalar[] } {
+    const col = escapeId(this.resolveColumnName(field.json, config));
+    const extract = `JSON_EXTRACT(${col}, ?)`;
+    return {
+      clause: field.unquote ? `JSON_UNQUOTE(${extract})` : extract,
+      values: [this.validateJsonPath(field.path, field.json)],
+    };
+  }
+
+  /**
+   * Build a {@link JsonCondition}. Paths and values are bound in placeholder order;
+   * `contains` / `overlaps` candidates are bound as JSON text.
+   * @param condition JSON condition
+   * @param config Query configuration (for alias resolution)
+   * @param clauseType Clause the condition is compiled into
+   * @returns The SQL clause and its ordered bind values
+   */
+  private buildJsonCondition(
+    condition: JsonCondition,
+    config: QueryConfig,
+    clauseType: ConditionClause
+  ): { clause: string; values: WhereScalar[] } {
+    const col = this.resolveConditionColumn(condition.json, config, clauseType);
+    const path =
+      condition.path === undefined
+        ? undefined
+        : this.validateJsonPath(condition.path, condition.json);
+    // The document (or the part of it at `path`) as a JSON expression
+    const target = path === undefined ? col : `JSON_EXTRACT(${col}, ?)`;
+    const pathValues: WhereScalar[] = path === undefined ? [] : [path];
+
+    if ('contains' in condition) {
+      return {
+        clause: `JSON_CONTAINS(${col}, ?${path === undefined ? '' : ', ?'})`,
+        values: [JSON.stringify(condition.contains), ...pathValues],
+      };
+    }
+    if ('overlaps' in condition) {
+      return {
+        clause: `JSON_OVERLAPS(${target}, ?)`,
+        values: [...pathValues, JSON.stringify(condition.overlaps)],
+      };
+    }
+    if ('memberOf' in condition) {
+      if (Array.isArray(condition.memberOf) || this.isObject(condition.memberOf)) {
+        throw new Error(`JSON MEMBER OF condition for "${condition.json}" expects a scalar value`);
+      }
+      return { clause: `? MEMBER OF (${target})`, values: [condition.memberOf, ...pathValues] };
+    }
+    if (!('op' in condition)) {
+      // Unreachable for well-typed input; guards untyped (JavaScript) callers
       throw new Error(
-        `Invalid ${context}: must contain only alphanumeric characters and underscores.`
+        `JSON condition for "${(condition as JsonCondition).json}" needs one of: op, contains, overlaps, memberOf`
       );
     }
+
+    const expression = condition.length
+      ? `JSON_LENGTH(${col}${path === undefined ? '' : ', ?'})`
+      : path === undefined
+        ? col
+        : `JSON_UNQUOTE(${target})`;
+    return this.buildComparison(
+      { clause: expression, values: pathValues },
+      condition.json,
+      condition.op,
+      condition.value,
+      clauseType
+    );
+  }
+
+  /** Type guard for a {@link GeoJsonGeometry}. */
+  private isGeoJsonGeometry(value: unknown): value is GeoJsonGeometry {
+    return (
+      this.isObject(value) &&
+      typeof value.type === 'string' &&
+      GEOJSON_TYPES.has(value.type) &&
+      Array.isArray(value.coordinates)
+    );
   }
 
   /**
-   * Build SQL query from QueryConfig
-   * @param config Query configuration
-   * @param isCount Whether to build a count query
-   * @returns Generated SQL query string and parameter values for whereIn/having
+   * Build `ST_GeomFromGeoJSON(?)` for a geometry (or `[lng, lat]` point), bound as GeoJSON text.
+   * @param geometry GeoJSON geometry or position
+   * @param srid SRID to assign (default: MySQL's 4326)
+   * @returns The SQL expression and its bound GeoJSON
    */
-  private buildQuery(
-    config: QueryConfig<any>,
-    isCount = false
-  ): { query: string; additionalValues: Array<string | number | boolean | null> } {
-    const {
-      fields,
-      table,
-      joins,
-      where,
-      whereIn,
-      whereNotIn,
-      having,
-      limit,
-      offset,
-      orderBy,
-      groupBy,
-      idField,
-      orderDirection,
-      union,
-      distinct,
-    } = config;
+  private buildGeometry(
+    geometry: GeoJsonGeometry | GeoJsonPosition,
+    srid?: number
+  ): { clause: string; values: WhereScalar[] } {
+    const geoJson: unknown = Array.isArray(geometry)
+      ? { type: 'Point', coordinates: geometry }
+      : geometry;
+    if (!this.isGeoJsonGeometry(geoJson)) {
+      throw new Error('Spatial value must be a GeoJSON geometry or a [longitude, latitude] pair');
+    }
+    return { clause: this.geometryPlaceholder(srid), values: [JSON.stringify(geoJson)] };
+  }
 
-    let query = '';
-    const additionalValues: Array<string | number | boolean | null> = [];
+  /**
+   * `ST_GeomFromGeoJSON(?)`, with the SRID argument when one is given.
+   * @param srid SRID to assign (default: MySQL's 4326)
+   * @throws Error if the SRID is not a non-negative integer
+   */
+  private geometryPlaceholder(srid?: number): string {
+    if (srid === undefined) return 'ST_GeomFromGeoJSON(?)';
+    if (!Number.isInteger(srid) || srid < 0) {
+      throw new Error(`Invalid SRID: ${String(srid)}`);
+    }
+    return `ST_GeomFromGeoJSON(?, 1, ${srid})`;
+  }
 
-    const fromClause = Array.isArray(table)
-      ? table.map((t) => escapeId(t)).join(', ')
-      : escapeId(table);
+  /**
+   * Build a {@link SpatialCondition}; geometries and distances are bound in placeholder order.
+   * @param condition Spatial condition
+   * @param config Query configuration (for alias resolution)
+   * @param clauseType Clause the condition is compiled into
+   * @returns The SQL clause and its ordered bind values
+   */
+  private buildSpatialCondition(
+    condition: SpatialCondition,
+    config: QueryConfig,
+    clauseType: ConditionClause
+  ): { clause: string; values: WhereScalar[] } {
+    const col = this.resolveConditionColumn(condition.spatial, config, clauseType);
 
-    // Counting a grouped query means counting the number of GROUPS, not summing
-    // per-group counts. Wrap the row query (sans ORDER BY / LIMIT / OFFSET) as a
-    // derived table and count its rows.
-    if (isCount && groupBy) {
-      // Omit ORDER BY / LIMIT / OFFSET — they're meaningless inside the COUNT subquery.
-      const { limit: _l, offset: _o, orderBy: _ob, orderByVector: _ov, ...innerConfig } = config;
-      const inner = this.buildQuery(innerConfig, false);
-      const wrapped = `SELECT COUNT(*) AS count FROM (${inner.query}) AS __count_sub`;
-      if (this.isDev) {
-        console.log(colors.blue('Generated Query:'), colors.magenta(wrapped));
+    if ('near' in condition) {
+      const { point, meters } = condition.near;
+      if (typeof meters !== 'number' || !Number.isFinite(meters) || meters < 0) {
+        throw new Error(`Spatial "near" condition for "${condition.spatial}" needs meters >= 0`);
       }
-      return { query: wrapped, additionalValues: inner.additionalValues };
+      const geometry = this.buildGeometry(point, condition.srid);
+      return {
+        clause: `ST_Distance_Sphere(${col}, ${geometry.clause}) <= ?`,
+        values: [...geometry.values, meters],
+      };
     }
 
-    if (isCount) {
-      // COUNT(*) counts rows including NULL idField; COUNT(DISTINCT id) honours DISTINCT.
-      const countExpr = distinct ? `COUNT(DISTINCT ${escapeId(idField)})` : 'COUNT(*)';
-      query += `SELECT ${countExpr} AS count FROM ${fromClause}`;
-    } else {
-      const selectParts: string[] = [];
+    if ('bbox' in condition) {
+      const box = condition.bbox;
+      if (!Array.isArray(box) || box.length !== 4 || !box.every((n) => Number.isFinite(n))) {
+        throw new Error(
+          `Spatial "bbox" for "${condition.spatial}" must be [minLng, minLat, maxLng, maxLat]`
+        );
+      }
+      const [minLng, minLat, maxLng, maxLat] = box;
+      const geometry = this.buildGeometry(
+        {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [minLng, minLat],
+              [maxLng, minLat],
+              [maxLng, maxLat],
+              [minLng, maxLat],
+              [minLng, minLat],
+            ],
+          ],
+        },
+        condition.srid
+      );
+      return { clause: `MBRIntersects(${col}, ${geometry.clause})`, values: geometry.values };
+    }
 
-      for (const key in fields) {
-        const rawField = fields[key];
-        // A typed column ({@link col}) resolves to its underlying column string and is
-        // then handled exactly like a plain string field (escaping / expression detection).
-        const fieldValue = this.isTypedColumn(rawField) ? rawField.__column : rawField;
+    const [fn, target] =
+      'contains' in condition
+        ? ['ST_Contains', condition.contains]
+        : 'within' in condition
+          ? ['ST_Within', condition.within]
+          : 'intersects' in condition
+            ? ['ST_Intersects', condition.intersects]
+            : [undefined, undefined];
+    if (fn) {
+      const geometry = this.buildGeometry(target, condition.srid);
+      return { clause: `${fn}(${col}, ${geometry.clause})`, values: geometry.values };
+    }
 
-        if (this.isObject(fieldValue) && !('raw' in fieldValue)) {
-          // Handle subquery
-          const subQueryResult = this.buildQuery(fieldValue as QueryConfig, false);
-          selectParts.push(`(${subQueryResult.query}) AS ${escapeId(key)}`);
-          // Propagate the subquery's bound values (e.g. from whereIn/whereNotIn).
-          // The SELECT clause precedes WHERE textually, and this loop runs before the
-          // WHERE processing below, so pushing here keeps placeholders and values aligned.
-          additionalValues.push(...subQueryResult.additionalValues);
-        } else if (
-          typeof fieldValue === 'object' &&
-          fieldValue !== null &&
+    throw new Error(
+      `Spatial condition for "${condition.spatial}" needs one of: near, contains, within, intersects, bbox`
+    );
+  }
+
+  /** Type guard for a {@link SpatialField}. */
+  private isSpatialField(value: unknown): value is SpatialField {
+    return (
+      this.isObject(value) &&
+      (typeof value.geojson === 'string' ||
+        (typeof value.column === 'string' && 'distanceFrom' in value))
+    );
+  }
+
+  /**
+   * Build the select expression for a {@link SpatialField}.
+   * @param field Spatial field
+   * @param config Query configuration (for alias resolution)
+   * @returns The SQL expression and its bound values
+   */
+  private buildSpatialField(
+    field: SpatialField,
+    config: QueryConfig
+  ): { clause: string; values: WhereScalar[] } {
+    if ('geojson' in field) {
+      return {
+        clause: `ST_AsGeoJSON(${escapeId(this.resolveColumnName(field.geojson, config))})`,
+        values: [],
+      };
+    }
+    const geometry = this.buildGeometry(field.distanceFrom, field.srid);
+    return {
+      clause: `ST_Distance_Sphere(${escapeId(this.resolveColumnName(field.column, config))}, ${geometry.clause})`,
+      values: geometry.values,
+    };
+  }
+
+  /** Type guard for a {@link FullTextMatch} (used as a where entry or a field). */
+  private isFullTextMatch(value: unknown): value is FullTextMatch {
+    return this.isObject(value) && 'match' in value && 'against' in value;
+  }
+
+  /**
+   * Build `MATCH (...) AGAINST (? <modifier>)` with escaped, alias-resolved columns.
+   * @param search Full-text match
+   * @param config Query configuration (for alias resolution)
+   * @returns The SQL expression and its bound search string
+   */
+  private buildFullTextMatch(
+    search: FullTextMatch,
+    config: QueryConfig
+  ): { clause: string; values: WhereScalar[] } {
+    const columns = Array.isArray(search.match) ? search.match : [search.match];
+    if (columns.length === 0) {
+      throw new Error('Full-text match requires at least one column');
+    }
+    if (typeof search.against !== 'string') {
+      throw new Error('Full-text match expects a string to search for');
+    }
+    const mode = search.mode ?? 'natural';
+    const modifier = Object.prototype.hasOwnProperty.call(FULLTEXT_MODIFIERS, mode)
+      ? FULLTEXT_MODIFIERS[mode]
+      : undefined;
+    if (!modifier) {
+      throw new Error(`Unsupported full-text search mode: ${String(mode)}`);
+    }
+
+    const match = columns.map((column) => escapeId(this.resolveColumnName(column, config)));
+    return {
+      clause: `MATCH (${match.join(', ')}) AGAINST (? ${modifier})`,
+      values: [search.against],
+    };
+  }
+
+  /**
+   * Build a subquery predicate (EXISTS / NOT EXISTS / IN / NOT IN / quantified comparison).
+   * The subquery is built as a nested query, so its bound values are returned in placeholder
+   * order and it carries no default ORDER BY.
+   * @param condition Subquery condition
+   * @param config Outer query configuration (for alias resolution)
+   * @param clauseType Clause the condition is compiled into
+   * @returns The SQL clause and its ordered bind values
+   */
+  private buildSubqueryCondition(
+    condition: SubqueryCondition,
+    config: QueryConfig,
+    clauseType: ConditionClause
+  ): { clause: string; values: WhereScalar[] } {
+    if ('exists' in condition || 'notExists' in condition) {
+      const negate = 'notExists' in condition;
+      const sub = this.buildQuery(negate ? condition.notExists : condition.exists, false, true);
+      return {
+        clause: `${negate ? 'NOT EXISTS' : 'EXISTS'} (${sub.query})`,
+        values: sub.additionalValues,
+      };
+    }
+
+    const { column, op, quantifier, subquery } = condition;
+    const operator = String(op).toUpperCase() as SubqueryOperator;
+    const isMembership = operator === 'IN' || operator === 'NOT IN';
+    if (!isMembership && !['=', '!=', '<>', '<', '>', '<=', '>='].includes(operator)) {
+      throw new Error(`Unsupported ${clauseType} subquery operator: ${String(op)}`);
+    }
+    if (quantifier !== undefined && (isMembership || !['ANY', 'ALL'].includes(quantifier))) {
+      throw new Error(
+        `${clauseType} subquery condition for "${column}" has an invalid quantifier: ${String(quantifier)}`
+      );
+    }
+
+    const col = this.resolveConditionColumn(column, config, clauseType);
+    const sub = this.buildQuery(subquery, false, true);
+    return {
+      clause: `${col} ${operator} ${quantifier ? `${quantifier} ` : ''}(${sub.query})`,
+      values: sub.additionalValues,
+    };
+  }
+
+  /**
+   * Build a single JOIN clause. The join type is checked against a fixed allow-list, the
+   * table and alias are escaped, and a structured ON is compiled from escaped column pairs
+   * plus parameterised conditions; qualified `alias.column` references in the pairs must
+   * name a table or join alias of the query.
+   * @param join Join configuration
+   * @param config Query configuration (for alias resolution and known table references)
+   * @returns The JOIN clause and its ordered bind values
+   */
+  private buildJoinClause(
+    join: JoinConfig,
+    config: QueryConfig
+  ): { clause: string; values: WhereScalar[] } {
+    const type = String(join.type).toUpperCase() as JoinType;
+    const keyword = Object.prototype.hasOwnProperty.call(JOIN_KEYWORDS, type)
+      ? JOIN_KEYWORDS[type]
+      : undefined;
+    if (!keyword) {
+      throw new Error(`Unsupported JOIN type: ${String(join.type)}`);
+    }
+
+    let clause = `${keyword} ${escapeId(join.table)}`;
+    if (join.alias) {
+      this.validateIdentifier(join.alias, 'table alias');
+      clause += ` AS ${escapeId(join.alias)}`;
+    }
+    if (join.indexHints?.length) {
+      clause += ` ${this.buildIndexHints(join.indexHints)}`;
+    }
+
+    if (join.on === undefined) {
+      if (type !== 'CROSS' && type !== 'STRAIGHT_JOIN') {
+        throw new Error(`${keyword} on "${join.table}" requires an ON condition`);
+      }
+      return { clause, values: [] };
+    }
+
+    if (typeof join.on === 'string') {
+      this.validateSqlClause(join.on, 'JOIN ON clause');
+      return { clause: `${clause} ON ${join.on}`, values: [] };
+    }
+
+    const references = this.getTableReferences(config);
+    const column = (name: string): string => {
+      const resolved = this.resolveColumnName(name, config);
+      const dot = resolved.lastIndexOf('.');
+      if (dot > 0) {
+        const qualifier = resolved.slice(0, dot).split('.').pop()!;
+        if (!references.has(qualifier)) {
+          throw new Error(`Unknown table or alias "${qualifier}" in JOIN ON column "${name}"`);
+        }
+      }
+      return escapeId(resolved);
+    };
+
+    const conditions = join.on.columns.map(([left, right]) => `${column(left)} = ${column(right)}`);
+    const values: WhereScalar[] = [];
+    for (const entry of join.on.where ?? []) {
+      const built = this.buildWhereEntry(entry, config);
+      conditions.push(built.clause);
+      values.push(...built.values);
+    }
+    if (conditions.length === 0) {
+      throw new Error(`${keyword} on "${join.table}" has an empty ON condition`);
+    }
+
+    return { clause: `${clause} ON ${conditions.join(' AND ')}`, values };
+  }
+
+  /**
+   * Build index hints for a table reference, e.g. `USE INDEX (`a`, `b`) IGNORE INDEX FOR
+   * ORDER BY (`c`)`. Index names must be plain identifiers.
+   * @param hints Index hints in emission order
+   * @returns SQL index hint list
+   */
+  private buildIndexHints(hints: IndexHint[]): string {
+    return hints
+      .map((hint) => {
+        const type = String(hint.type).toUpperCase();
+        if (type !== 'USE' && type !== 'FORCE' && type !== 'IGNORE') {
+          throw new Error(`Unsupported index hint type: ${String(hint.type)}`);
+        }
+        const scope = hint.for === undefined ? '' : String(hint.for).toUpperCase();
+        if (scope !== '' && scope !== 'JOIN' && scope !== 'ORDER BY' && scope !== 'GROUP BY') {
+          throw new Error(`Unsupported index hint scope: ${String(hint.for)}`);
+        }
+        if (hint.indexes.length === 0 && type !== 'USE') {
+          throw new Error(`${type} INDEX requires at least one index name`);
+        }
+        const indexes = hint.indexes.map((index) => {
+          this.validateIdentifier(index, 'index name');
+          return escapeId(index);
+        });
+        return `${type} INDEX${scope ? ` FOR ${scope}` : ''} (${indexes.join(', ')})`;
+      })
+      .join(' ');
+  }
+
+  /**
+   * Build the optimizer hint comment placed after `SELECT`, e.g.
+   * `/*+ MAX_EXECUTION_TIME(1000) JOIN_ORDER(`a`, `b`) *\/ `. Every name inside the comment
+   * must be a plain identifier, so nothing can terminate the comment early.
+   * @param hints Optimizer hints
+   * @returns The hint comment followed by a space, or an empty string when there are none
+   */
+  private buildOptimizerHints(hints: OptimizerHint[] | undefined): string {
+    if (!hints?.length) return '';
+
+    const identifiers = (names: string[], context: string): string =>
+      names
+        .map((name) => {
+          this.validateIdentifier(name, context);
+          return escapeId(name);
+        })
+        .join(', ');
+
+    const parts = hints.map((hint) => {
+      const type = String(hint.type).toUpperCase() as OptimizerHint['type'];
+      const kind = Object.prototype.hasOwnProperty.call(OPTIMIZER_HINT_KINDS, type)
+        ? OPTIMIZER_HINT_KINDS[type]
+        : undefined;
+
+      switch (kind) {
+        case 'timeout': {
+          const { ms } = hint as Extract<OptimizerHint, { type: 'MAX_EXECUTION_TIME' }>;
+          if (!Number.isInteger(ms) || ms < 0) {
+            throw new Error('MAX_EXECUTION_TIME requires a non-negative integer ms value');
+          }
+          return `${type}(${ms})`;
+        }
+        case 'joinOrder':
+        case 'table': {
+          const tables = (hint as { tables?: string[] }).tables ?? [];
+          if (kind === 'joinOrder' && type !== 'JOIN_FIXED_ORDER' && tables.length === 0) {
+            throw new Error(`${type} optimizer hint requires at least one table`);
+          }
+          return `${type}(${identifiers(tables, 'optimizer hint table')})`;
+        }
+        case 'index': {
+          const { table, indexes = [] } = hint as { table: string; indexes?: string[] };
+          const target = identifiers([table], 'optimizer hint table');
+          return indexes.length
+            ? `${type}(${target} ${identifiers(indexes, 'index name')})`
+            : `${type}(${target})`;
+        }
+        default:
+          throw new Error(`Unsupported optimizer hint: ${String(hint.type)}`);
+      }
+    });
+
+    return `/*+ ${parts.join(' ')} */ `;
+  }
+
+  /**
+   * Collect the names a column may be qualified with in a query: its table(s) (including
+   * CTEs used as tables), joined tables and join aliases. Schema-qualified table names
+   * (`db.users`) are also registered by their bare table name.
+   */
+  private getTableReferences(config: QueryConfig): Set<string> {
+    const tables = Array.isArray(config.table) ? [...config.table] : [config.table];
+    const references = new Set<string>();
+    for (const join of config.joins ?? []) {
+      tables.push(join.table);
+      if (join.alias) references.add(join.alias);
+    }
+    for (const table of tables) {
+      references.add(table);
+      references.add(table.split('.').pop()!);
+    }
+    return references;
+  }
+
+  /**
+   * Validate a SQL clause to prevent SQL injection
+   * @param clause The SQL clause to validate
+   * @param context Description of the clause type for error messages
+   * @throws Error if clause appears to contain dangerous patterns
+   */
+  private validateSqlClause(clause: string, context: string): void {
+    for (const pattern of CORE_SQL_PATTERNS) {
+      if (pattern.test(clause)) {
+        throw new Error(`Invalid ${context}: potentially dangerous pattern detected.`);
+      }
+    }
+
+    // Apply strict patterns only for non-raw-SQL contexts
+    if (context !== 'raw SQL field' && context !== 'field expression') {
+      for (const pattern of STRICT_SQL_PATTERNS) {
+        if (pattern.test(clause)) {
+          throw new Error(`Invalid ${context}: potentially dangerous pattern detected.`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate that a string is a safe SQL identifier (alphanumeric, underscores, hyphens only)
+   * Used for DDL values like charset, collate, and engine names
+   * @param value The value to validate
+   * @param context Description for error messages
+   * @throws Error if value contains unsafe characters
+   */
+  private validateIdentifier(value: string, context: string): void {
+    if (!/^[a-zA-Z0-9_]+$/.test(value)) {
+      throw new Error(
+        `Invalid ${context}: must contain only alphanumeric characters and underscores.`
+      );
+    }
+  }
+
+  /**
+   * Build the `WITH [RECURSIVE] ...` prefix for a query's common table expressions.
+   * Members are built as nested queries, so they carry no default ORDER BY (which MySQL
+   * rejects in a recursive member).
+   * @param ctes CTE definitions keyed by name
+   * @returns The WITH clause and its ordered bind values
+   */
+  private buildWithClause(ctes: { [name: string]: CteDefinition }): {
+    clause: string;
+    values: BindValue[];
+  } {
+    let isRecursive = false;
+    const parts: string[] = [];
+    const values: BindValue[] = [];
+
+    for (const name of Object.keys(ctes)) {
+      const definition = ctes[name]!;
+      this.validateIdentifier(name, 'CTE name');
+
+      if ('anchor' in definition) {
+        isRecursive = true;
+        const anchor = this.buildQuery(definition.anchor, false, true);
+        const member = this.buildQuery(definition.recursive, false, true);
+        const columns = definition.columns?.length
+          ? ` (${definition.columns.map((c) => escapeId(c)).join(', ')})`
+          : '';
+        const unionType = definition.distinct ? 'UNION DISTINCT' : 'UNION ALL';
+        parts.push(`${escapeId(name)}${columns} AS (${anchor.query} ${unionType} ${member.query})`);
+        values.push(...anchor.additionalValues, ...member.additionalValues);
+      } else {
+        const built = this.buildQuery(definition, false, true);
+        parts.push(`${escapeId(name)} AS (${built.query})`);
+        values.push(...built.additionalValues);
+      }
+    }
+
+    return { clause: `WITH ${isRecursive ? 'RECURSIVE ' : ''}${parts.join(', ')}`, values };
+  }
+
+  /**
+   * Build SQL query from QueryConfig
+   * @param config Query configuration
+   * @param isCount Whether to build a count query
+   * @param isNested Whether the query is embedded in another (e.g. a CTE member), in which
+   *                 case no default ORDER BY is added
+   * @returns Generated SQL query string, its generated bind values and where the caller's
+   *          values splice into them
+   */
+  private buildQuery(config: QueryConfig<any>, isCount = false, isNested = false): BuiltQuery {
+    // CTEs precede the whole statement (including a count wrapper), so build the main query
+    // without them and prefix the WITH clause; its values bind first.
+    if (config.with && Object.keys(config.with).length > 0) {
+      const { with: ctes, ...mainConfig } = config;
+      const withClause = this.buildWithClause(ctes);
+      const main = this.buildQuery(mainConfig, isCount, isNested);
+      const query = `${withClause.clause} ${main.query}`;
+      if (this.isDev) {
+        console.log(colors.blue('Generated Query:'), colors.magenta(query));
+      }
+      return {
+        query,
+        additionalValues: [...withClause.values, ...main.additionalValues],
+        userValuesAt: withClause.values.length + main.userValuesAt,
+      };
+    }
+
+    if (config.union?.length || config.setOperations?.length) {
+      return this.buildCompoundQuery(config, isCount);
+    }
+
+    const {
+      fields,
+      table,
+      joins,
+      where,
+      whereIn,
+      whereNotIn,
+      having,
+      limit,
+      offset,
+      orderBy,
+      groupBy,
+      idField,
+      orderDirection,
+      distinct,
+    } = config;
+
+    let query = '';
+    const additionalValues: BindValue[] = [];
+
+    let fromClause = Array.isArray(table)
+      ? table.map((t) => escapeId(t)).join(', ')
+      : escapeId(table);
+    if (config.indexHints?.length) {
+      if (Array.isArray(table) && table.length !== 1) {
+        throw new Error('indexHints require a single table; use joins for multi-table hints');
+      }
+      fromClause += ` ${this.buildIndexHints(config.indexHints)}`;
+    }
+
+    // Counting a grouped query means counting the number of GROUPS, not summing
+    // per-group counts. Wrap the row query (sans ORDER BY / LIMIT / OFFSET) as a
+    // derived table and count its rows.
+    if (isCount && groupBy) {
+      // Omit ORDER BY / LIMIT / OFFSET / locking — they're meaningless inside the COUNT subquery.
+      const {
+        limit: _l,
+        offset: _o,
+        orderBy: _ob,
+        orderByVector: _ov,
+        orderByDistance: _od,
+        lock: _lk,
+        optimizerHints,
+        ...innerConfig
+      } = config;
+      // MAX_EXECUTION_TIME only takes effect on the top-level SELECT, so it moves to the
+      // wrapper; the remaining hints name the inner query's tables and stay with it.
+      const isTimeout = (hint: OptimizerHint) => hint.type === 'MAX_EXECUTION_TIME';
+      const innerHints = optimizerHints?.filter((hint) => !isTimeout(hint));
+      const inner = this.buildQuery(
+        innerHints?.length ? { ...innerConfig, optimizerHints: innerHints } : innerConfig,
+        false
+      );
+      const outerHints = this.buildOptimizerHints(optimizerHints?.filter(isTimeout));
+      const wrapped = `SELECT ${outerHints}COUNT(*) AS count FROM (${inner.query}) AS __count_sub`;
+      if (this.isDev) {
+        console.log(colors.blue('Generated Query:'), colors.magenta(wrapped));
+      }
+      return {
+        query: wrapped,
+        additionalValues: inner.additionalValues,
+        userValuesAt: inner.userValuesAt,
+      };
+    }
+
+    if (isCount) {
+      // COUNT(*) counts rows including NULL idField; COUNT(DISTINCT id) honours DISTINCT.
+      const countExpr = distinct ? `COUNT(DISTINCT ${escapeId(idField)})` : 'COUNT(*)';
+      query += `SELECT ${this.buildOptimizerHints(config.optimizerHints)}${countExpr} AS count FROM ${fromClause}`;
+    } else {
+      const selectParts: string[] = [];
+
+      for (const key in fields) {
+        const rawField = fields[key];
+        // A typed column ({@link col}) resolves to its underlying column string and is
+        // then handled exactly like a plain string field (escaping / expression detection).
+        const fieldValue = this.isTypedColumn(rawField) ? rawField.__column : rawField;
+
+        if (this.isWindowField(fieldValue)) {
+          // Structured window function: built from typed parts, no raw SQL
+          selectParts.push(`${this.buildWindowField(fieldValue, config)} AS ${escapeId(key)}`);
+        } else if (this.isSpatialField(fieldValue)) {
+          // GeoJSON output or distance from a point; bound geometries bind in SELECT order,
+          // ahead of the caller's values for raw WHERE strings
+          const built = this.buildSpatialField(fieldValue, config);
+          selectParts.push(`${built.clause} AS ${escapeId(key)}`);
+          additionalValues.push(...built.values);
+        } else if (this.isJsonPathField(fieldValue)) {
+          // JSON path extraction; the bound path binds in SELECT order, ahead of the caller's
+          // values for raw WHERE strings
+          const built = this.buildJsonPathField(fieldValue, config);
+          selectParts.push(`${built.clause} AS ${escapeId(key)}`);
+          additionalValues.push(...built.values);
+        } else if (this.isFullTextMatch(fieldValue)) {
+          // Full-text relevance score; the search string binds in SELECT order, ahead of the
+          // caller's values for raw WHERE strings
+          const built = this.buildFullTextMatch(fieldValue, config);
+          selectParts.push(`${built.clause} AS ${escapeId(key)}`);
+          additionalValues.push(...built.values);
+        } else if (this.isObject(fieldValue) && !('raw' in fieldValue)) {
+          // Handle subquery
+          const subQueryResult = this.buildQuery(fieldValue as QueryConfig, false);
+          selectParts.push(`(${subQueryResult.query}) AS ${escapeId(key)}`);
+          // Propagate the subquery's bound values (e.g. from whereIn/whereNotIn).
+          // The SELECT clause precedes WHERE textually, and this loop runs before the
+          // WHERE processing below, so pushing here keeps placeholders and values aligned.
+          additionalValues.push(...subQueryResult.additionalValues);
+        } else if (
+          typeof fieldValue === 'object' &&
+          fieldValue !== null &&
           'raw' in fieldValue &&
           typeof fieldValue.raw === 'string'
         ) {
@@ -735,34 +2911,34 @@ export class MySQLORM {
         }
       }
 
-      query += distinct ? 'SELECT DISTINCT ' : 'SELECT ';
+      query += `SELECT ${this.buildOptimizerHints(config.optimizerHints)}`;
+      query += distinct ? 'DISTINCT ' : '';
       query += selectParts.join(', ');
       query += ` FROM ${fromClause}`;
     }
 
     if (joins) {
+      // JOINs precede WHERE textually, so structured ON values are bound before WHERE values
+      // (including the caller's values for raw WHERE strings).
       joins.forEach((join) => {
-        this.validateSqlClause(join.on, 'JOIN ON clause');
-        query += ` ${join.type.toUpperCase()} JOIN ${escapeId(join.table)} ON ${join.on}`;
+        const built = this.buildJoinClause(join, config);
+        query += ` ${built.clause}`;
+        additionalValues.push(...built.values);
       });
     }
 
+    // The caller's values fill raw `?` placeholders in WHERE / HAVING strings, so they bind
+    // after the SELECT and JOIN values and before the generated WHERE values.
+    const userValuesAt = additionalValues.length;
+
     // Build WHERE clause with proper handling of where, whereIn, and whereNotIn
     const whereClauses: string[] = [];
 
     if (where && where.length > 0) {
       for (const entry of where) {
-        if (typeof entry === 'string') {
-          // Raw SQL string: validate for injection and resolve a leading alias.
-          // Values for any `?` placeholders are supplied via the `values` argument.
-          this.validateSqlClause(entry, 'WHERE clause');
-          whereClauses.push(this.resolveWhereClause(entry, config));
-        } else {
-          // Structured condition: fully parameterised, no raw SQL concatenation.
-          const built = this.buildWhereCondition(entry, config);
-          whereClauses.push(built.clause);
-          additionalValues.push(...built.values);
-        }
+        const built = this.buildWhereEntry(entry, config);
+        whereClauses.push(built.clause);
+        additionalValues.push(...built.values);
       }
     }
 
@@ -797,22 +2973,36 @@ export class MySQLORM {
     }
 
     if (groupBy) {
-      query += ` GROUP BY ${
-        Array.isArray(groupBy) ? groupBy.map((g) => escapeId(g)).join(', ') : escapeId(groupBy)
-      }`;
+      const groups = (Array.isArray(groupBy) ? groupBy : [groupBy]).map((column) =>
+        this.resolveGroupByColumn(column, config)
+      );
+      query += ` GROUP BY ${groups.join(', ')}${config.rollup ? ' WITH ROLLUP' : ''}`;
     }
 
     if (having && having.length > 0) {
-      // Validate HAVING clauses
-      having.forEach((clause) => this.validateSqlClause(clause, 'HAVING clause'));
-      query += ` HAVING ${having.join(' AND ')}`;
-      // Note: HAVING values should be included in the main query values array by the caller
+      // HAVING follows WHERE textually, so structured HAVING values are appended after the
+      // WHERE values to keep placeholders and bind values aligned. Values for raw HAVING
+      // strings are still supplied by the caller via the `values` argument.
+      const havingClauses: string[] = [];
+      for (const entry of having) {
+        const built = this.buildWhereEntry(entry, config, 'HAVING');
+        havingClauses.push(built.clause);
+        additionalValues.push(...built.values);
+      }
+      query += ` HAVING ${havingClauses.join(' AND ')}`;
     }
 
     // Enhanced ORDER BY with support for multiple directions and alias resolution
     // Skip ORDER BY for count queries as it has no effect and adds overhead
     if (!isCount) {
-      if (config.orderByVector) {
+      if (config.orderByDistance) {
+        // ORDER BY follows WHERE / HAVING, so the bound point is appended last
+        const { column, from, direction = 'ASC', srid } = config.orderByDistance;
+        const geometry = this.buildGeometry(from, srid);
+        const dir = String(direction).toUpperCase() === 'DESC' ? 'DESC' : 'ASC';
+        query += ` ORDER BY ST_Distance_Sphere(${escapeId(this.resolveColumnName(column, config))}, ${geometry.clause}) ${dir}`;
+        additionalValues.push(...geometry.values);
+      } else if (config.orderByVector) {
         const { column, queryVector, metric = 'cosine', direction = 'ASC' } = config.orderByVector;
         const distanceExpr = this.buildVectorDistanceSQL(column, queryVector, metric);
         query += ` ORDER BY ${distanceExpr} ${direction.toUpperCase()}`;
@@ -860,7 +3050,7 @@ export class MySQLORM {
             );
           }
         }
-      } else {
+      } else if (!isNested) {
         query += ` ORDER BY ${escapeId(config.idField)} ASC`;
       }
     }
@@ -880,85 +3070,1058 @@ export class MySQLORM {
       query += ` OFFSET ${safeOffset}`;
     }
 
-    if (union && union.length > 0) {
-      union.forEach((u) => {
-        const unionResult = this.buildQuery(u);
-        query += ` UNION ${unionResult.query}`;
-        additionalValues.push(...unionResult.additionalValues);
-      });
-    }
+    // Counting never needs row locks
+    if (config.lock && !isCount) {
+      query += ` ${this.buildLockClause(config.lock, config)}`;
+    }
+
+    if (this.isDev) {
+      console.log(colors.blue('Generated Query:'), colors.magenta(query));
+    }
+
+    return { query, additionalValues, userValuesAt };
+  }
+
+  /**
+   * Build a compound (UNION / INTERSECT / EXCEPT) query. Every branch — starting with the
+   * main query itself — is built as a nested, parenthesised query, and ORDER BY / LIMIT /
+   * OFFSET are applied to the combined result. A count query counts the combined rows.
+   * @param config Query configuration with `union` and/or `setOperations`
+   * @param isCount Whether to build a count query
+   * @returns Generated SQL query string, its ordered bind values and where the caller's
+   *          values splice into them (the first branch's WHERE clause)
+   * @throws Error if a later branch has raw `?` placeholders, which the caller's values
+   *         cannot reach
+   */
+  private buildCompoundQuery(config: QueryConfig, isCount: boolean): BuiltQuery {
+    const {
+      union,
+      setOperations,
+      orderBy,
+      orderDirection,
+      limit,
+      offset,
+      orderByVector,
+      orderByDistance,
+      ...firstConfig
+    } = config;
+    if (orderByVector || orderByDistance) {
+      throw new Error(
+        `${orderByVector ? 'orderByVector' : 'orderByDistance'} cannot be combined with union or setOperations`
+      );
+    }
+    if (firstConfig.lock) {
+      throw new Error('lock cannot be combined with union or setOperations');
+    }
+
+    const operations: SetOperation[] = [
+      ...(union ?? []).map((query) => ({ type: 'UNION' as const, query })),
+      ...(setOperations ?? []),
+    ];
+
+    // MAX_EXECUTION_TIME only takes effect on the top-level SELECT; in a count that is the
+    // wrapper, so it moves there (as for grouped counts)
+    const isTimeout = (hint: OptimizerHint) => hint.type === 'MAX_EXECUTION_TIME';
+    const { optimizerHints, ...unhinted } = firstConfig;
+    const firstHints = isCount
+      ? optimizerHints?.filter((hint) => !isTimeout(hint))
+      : optimizerHints;
+    const first = this.buildQuery(
+      firstHints?.length ? { ...unhinted, optimizerHints: firstHints } : unhinted,
+      false,
+      true
+    );
+    const parts = [`(${first.query})`];
+    const additionalValues = [...first.additionalValues];
+
+    for (const operation of operations) {
+      const operator = String(operation.type).toUpperCase();
+      if (!SET_OPERATORS.has(operator)) {
+        throw new Error(`Unsupported set operation: ${String(operation.type)}`);
+      }
+      // The caller's values splice in at the first branch's WHERE clause only
+      if (this.hasRawPlaceholders(operation.query)) {
+        throw new Error(
+          `${operator} branch on "${String(operation.query.table)}" has raw "?" placeholders; only the first branch of a compound query can use them, so use structured conditions`
+        );
+      }
+      const branch = this.buildQuery(operation.query, false, true);
+      parts.push(`${operator} (${branch.query})`);
+      additionalValues.push(...branch.additionalValues);
+    }
+
+    let query = parts.join(' ');
+
+    if (isCount) {
+      const outerHints = this.buildOptimizerHints(optimizerHints?.filter(isTimeout));
+      query = `SELECT ${outerHints}COUNT(*) AS count FROM (${query}) AS __count_sub`;
+    } else {
+      // Only the result columns are visible outside the branches, so ORDER BY references
+      // are mapped to the first branch's aliases.
+      const order = this.normaliseOrderBy(orderBy, orderDirection).map((item) => {
+        const alias = this.findFieldAlias(item.column, config) ?? item.column;
+        return `${escapeId(alias)} ${item.direction}`;
+      });
+      if (order.length > 0) {
+        query += ` ORDER BY ${order.join(', ')}`;
+      }
+      if (limit) {
+        query += ` LIMIT ${Math.max(1, Math.floor(Math.abs(limit)))}`;
+      }
+      if (offset) {
+        query += ` OFFSET ${Math.max(0, Math.floor(Math.abs(offset)))}`;
+      }
+    }
+
+    if (this.isDev) {
+      console.log(colors.blue('Generated Query:'), colors.magenta(query));
+    }
+
+    return { query, additionalValues, userValuesAt: first.userValuesAt };
+  }
+
+  /**
+   * Whether a query's raw WHERE or HAVING strings (at any group depth) contain `?`
+   * placeholders, which take their values from the caller's `values`.
+   */
+  private hasRawPlaceholders(config: QueryConfig): boolean {
+    const visit = (entry: WhereEntry): boolean => {
+      if (typeof entry === 'string') return entry.includes('?');
+      if ('not' in entry) return visit(entry.not);
+      if ('and' in entry) return entry.and.some(visit);
+      if ('or' in entry) return entry.or.some(visit);
+      return false;
+    };
+    return [...(config.where ?? []), ...(config.having ?? [])].some(visit);
+  }
+
+  /**
+   * Build a locking clause (`FOR UPDATE` / `FOR SHARE` [OF ...] [NOWAIT | SKIP LOCKED]).
+   * @param lock Lock configuration
+   * @param config Query configuration whose tables, join aliases and CTEs `of` may name
+   * @returns SQL locking clause
+   */
+  private buildLockClause(lock: LockConfig, config: QueryConfig): string {
+    const options: Exclude<LockConfig, string> = typeof lock === 'string' ? { mode: lock } : lock;
+    if (options.mode !== 'update' && options.mode !== 'share') {
+      throw new Error(`Unsupported lock mode: ${String(options.mode)}`);
+    }
+    if (options.nowait && options.skipLocked) {
+      throw new Error('lock cannot use both nowait and skipLocked');
+    }
+
+    let clause = options.mode === 'update' ? 'FOR UPDATE' : 'FOR SHARE';
+    if (options.of) {
+      const tables = Array.isArray(options.of) ? options.of : [options.of];
+      const references = this.getTableReferences(config);
+      for (const table of tables) {
+        this.validateIdentifier(table, 'lock table');
+        if (
+          !references.has(table) &&
+          !Object.prototype.hasOwnProperty.call(config.with ?? {}, table)
+        ) {
+          throw new Error(`lock table "${table}" is not a table, join alias or CTE of the query`);
+        }
+      }
+      clause += ` OF ${tables.map((t) => escapeId(t)).join(', ')}`;
+    }
+    if (options.nowait) clause += ' NOWAIT';
+    if (options.skipLocked) clause += ' SKIP LOCKED';
+    return clause;
+  }
+
+  /**
+   * Ensure a locking read runs on a transaction: outside one, the locks would be released
+   * as soon as the statement finished, which is never what the caller intended.
+   * @param config Query configuration
+   * @param transaction Transaction the read runs on, if any
+   * @param method Calling method name, for the error message
+   * @throws Error if the query locks rows but no transaction was given
+   */
+  private assertLockingRead(
+    config: QueryConfig,
+    transaction: Transaction | undefined,
+    method: string
+  ): void {
+    if (config.lock && !transaction) {
+      throw new Error(
+        `${method}: locking reads (lock) must run inside a transaction — pass a Transaction`
+      );
+    }
+  }
+
+  /**
+   * Find the `fields` alias that selects a column: the name itself when it is an alias,
+   * otherwise the alias whose value resolves to the same column.
+   * @param column Column name or alias
+   * @param config Query configuration
+   * @returns The alias, or undefined when the column is not selected
+   */
+  private findFieldAlias(column: string, config: QueryConfig): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(config.fields, column)) {
+      return column;
+    }
+    const resolved = this.resolveColumnName(column, config);
+    return Object.keys(config.fields).find(
+      (key) => this.resolveColumnName(key, config) === resolved
+    );
+  }
+
+  /**
+   * Normalise a query's ORDER BY into explicit keyset sort keys, appending the idField as a
+   * tiebreaker so the keys always identify a unique position. Every key must be selected in
+   * `fields`, since its value is read back from the returned rows to build the cursor.
+   * @param config Query configuration
+   * @returns Ordered sort keys
+   */
+  private getKeysetSortKeys(config: QueryConfig): KeysetSortKey[] {
+    const { orderBy, orderDirection, idField } = config;
+    const items = this.normaliseOrderBy(orderBy, orderDirection);
+
+    const resolvedId = this.resolveColumnName(idField, config);
+    if (!items.some((item) => this.resolveColumnName(item.column, config) === resolvedId)) {
+      items.push({ column: idField, direction: 'ASC' });
+    }
+
+    return items.map((item) => {
+      const alias = this.findFieldAlias(item.column, config);
+      if (!alias) {
+        throw new Error(
+          `Cursor pagination requires ORDER BY column "${item.column}" to be selected in fields`
+        );
+      }
+      return { ...item, alias };
+    });
+  }
+
+  /**
+   * Encode a row's sort-key values as an opaque, URL-safe cursor string.
+   * Dates are tagged so they decode back to `Date` and bind with the same timezone handling;
+   * `bigint` values are tagged so they round-trip exactly.
+   */
+  private encodeCursor(row: Record<string, unknown>, keys: KeysetSortKey[]): string {
+    const values = keys.map((key) => {
+      const value = row[key.alias];
+      if (typeof value === 'bigint') return { $bigint: value.toString() };
+      return value instanceof Date ? { $date: value.toISOString() } : (value ?? null);
+    });
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor produced by {@link encodeCursor}.
+   * @throws Error if the cursor is malformed or does not match the sort keys
+   */
+  private decodeCursor(cursor: string, keys: KeysetSortKey[]): WhereScalar[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid pagination cursor');
+    }
+    if (!Array.isArray(parsed) || parsed.length !== keys.length) {
+      throw new Error('Invalid pagination cursor');
+    }
+    return parsed.map((value) => {
+      if (this.isObject(value) && typeof value.$date === 'string') {
+        // mysql2 binds Date values natively, so the revived Date is passed straight through.
+        return new Date(value.$date);
+      }
+      if (this.isObject(value) && typeof value.$bigint === 'string') {
+        return BigInt(value.$bigint);
+      }
+      if (
+        value === null ||
+        typeof value === 'string' ||
+        typeof value === 'number' ||
+        typeof value === 'boolean'
+      ) {
+        return value;
+      }
+      throw new Error('Invalid pagination cursor');
+    });
+  }
+
+  /**
+   * Build the row-query config for a keyset page: a seek predicate derived from the sort keys
+   * is appended to `where`, ORDER BY is made explicit (and reversed when paging backwards),
+   * and one extra row is fetched to detect whether a further page exists.
+   *
+   * For keys `(a ASC, b DESC, id ASC)` paging forwards the seek predicate is
+   * `(a > ?) OR (a = ? AND (b < ? OR b IS NULL)) OR (a = ? AND b = ? AND id > ?)`.
+   * NULLs sort first in ascending order, as MySQL sorts them: a NULL cursor value compares
+   * with `IS NULL` / `IS NOT NULL`, and rows with a NULL key follow any value descending.
+   * @param config Query configuration
+   * @param cursor Cursor options
+   * @returns The page config, its sort keys and whether it pages backwards
+   */
+  private buildKeysetConfig(
+    config: QueryConfig,
+    cursor: CursorPagination
+  ): { config: QueryConfig; keys: KeysetSortKey[]; backwards: boolean } {
+    if (!config.limit) {
+      throw new Error('Cursor pagination requires a limit');
+    }
+    if (
+      config.offset ||
+      config.union?.length ||
+      config.setOperations?.length ||
+      config.orderByVector ||
+      config.orderByDistance
+    ) {
+      throw new Error(
+        'Cursor pagination cannot be combined with offset, union, setOperations, orderByVector or orderByDistance'
+      );
+    }
+    if (cursor.after && cursor.before) {
+      throw new Error('Cursor pagination accepts either "after" or "before", not both');
+    }
+
+    const keys = this.getKeysetSortKeys(config);
+    const backwards = Boolean(cursor.before);
+    const token = cursor.after || cursor.before;
+    const where: WhereEntry[] = [...(config.where ?? [])];
+
+    if (token) {
+      const cursorValues = this.decodeCursor(token, keys);
+      where.push({
+        or: keys.flatMap((key, i) => {
+          const value = cursorValues[i] ?? null;
+          const ascending = (key.direction === 'ASC') !== backwards;
+          // MySQL sorts NULL first in ascending order, so nothing follows a NULL descending
+          if (value === null && !ascending) return [];
+
+          const and: WhereEntry[] = keys.slice(0, i).map((prev, j) => {
+            const prevValue = cursorValues[j] ?? null;
+            return prevValue === null
+              ? { column: prev.column, op: 'IS NULL' }
+              : { column: prev.column, op: '=', value: prevValue };
+          });
+          if (value === null) {
+            and.push({ column: key.column, op: 'IS NOT NULL' });
+          } else if (ascending) {
+            and.push({ column: key.column, op: '>', value });
+          } else {
+            and.push({
+              or: [
+                { column: key.column, op: '<', value },
+                { column: key.column, op: 'IS NULL' },
+              ],
+            });
+          }
+          return [{ and }];
+        }),
+      });
+    }
+
+    const { orderDirection: _od, ...rest } = config;
+    return {
+      config: {
+        ...rest,
+        where,
+        orderBy: keys.map((key) => ({
+          column: key.column,
+          direction: (key.direction === 'ASC') !== backwards ? ('ASC' as const) : ('DESC' as const),
+        })),
+        limit: config.limit + 1,
+      },
+      keys,
+      backwards,
+    };
+  }
+
+  /**
+   * Trim the look-ahead row from a keyset page, restore display order and derive cursors.
+   * @param rows Rows returned by the keyset query (`limit + 1` at most)
+   * @param limit Requested page size
+   * @param keyset Keyset config built by {@link buildKeysetConfig}
+   * @param cursor Cursor options the page was requested with
+   * @returns The page rows and its next/previous cursors
+   */
+  private buildCursorPage(
+    rows: Array<Record<string, unknown>>,
+    limit: number,
+    keyset: { keys: KeysetSortKey[]; backwards: boolean },
+    cursor: CursorPagination
+  ): {
+    rows: Array<Record<string, unknown>>;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  } {
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (keyset.backwards) page.reverse();
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    const hasNext = keyset.backwards ? true : hasMore;
+    const hasPrev = keyset.backwards ? hasMore : Boolean(cursor.after);
+
+    return {
+      rows: page,
+      nextCursor: hasNext && last ? this.encodeCursor(last, keyset.keys) : null,
+      prevCursor: hasPrev && first ? this.encodeCursor(first, keyset.keys) : null,
+    };
+  }
+
+  /**
+   * Start a fluent, immutable query builder (see {@link QueryBuilder}). Add fields with
+   * `.select(...)` before fetching rows; reading rows with no fields selected throws.
+   * @param table Table name(s) to query from
+   * @param idField Primary identifier field (default ORDER BY and DISTINCT counts)
+   * @returns A builder with no fields selected
+   */
+  public from(table: string | string[], idField = 'id'): QueryBuilder<Record<never, never>, B> {
+    return new QueryBuilder<Record<never, never>, B>(this, { table, idField, fields: {} });
+  }
+
+  /**
+   * Compile a query configuration to SQL without executing it. User `values` are spliced into
+   * the generated bind values at the WHERE clause, exactly as {@link getData} and
+   * {@link getFirst} do.
+   * @param config Query configuration
+   * @param options `count` to compile the COUNT query; `values` for raw `?` placeholders
+   * @returns The SQL and its ordered bind values
+   */
+  public toSQL(config: QueryConfig, options: ToSQLOptions = {}): CompiledQuery {
+    const built = this.buildQuery(config, options.count ?? false);
+    return { sql: built.query, values: this.mergeValues(built, options.values ?? []) };
+  }
+
+  /**
+   * Merge the caller's values for raw `?` placeholders into a built query's generated values.
+   * Values generated by the WITH, SELECT and JOIN clauses precede the WHERE clause, so they
+   * bind first; the caller's values follow, then the generated WHERE / HAVING / ORDER BY values.
+   * @param built Built query
+   * @param values Parameter values for raw `?` placeholders
+   * @returns The query's ordered bind values
+   */
+  private mergeValues(built: BuiltQuery, values: BindValue[]): BindValue[] {
+    const { additionalValues, userValuesAt } = built;
+    return [
+      ...additionalValues.slice(0, userValuesAt),
+      ...values,
+      ...additionalValues.slice(userValuesAt),
+    ];
+  }
+
+  /**
+   * Compile the rows query of a query configuration (shorthand for {@link toSQL}).
+   * @param config Query configuration
+   * @param values Parameter values for raw `?` placeholders
+   * @returns The SQL and its ordered bind values
+   */
+  public compile(config: QueryConfig, values: BindValue[] = []): CompiledQuery {
+    return this.toSQL(config, { values });
+  }
+
+  /**
+   * Compile the INSERT statement run by {@link insertData}.
+   * @param table Table name
+   * @param data Data to insert
+   * @returns The SQL and its ordered bind values
+   */
+  public compileInsert(table: string, data: { [k: string]: WriteValue }): CompiledQuery {
+    const keys = Object.keys(data);
+    const written = keys.map((key) => this.buildWriteValue(table, key, data[key]!));
+    const sql = `INSERT INTO ${escapeId(table)} (${keys
+      .map((k) => escapeId(k))
+      .join(', ')}) VALUES (${written.map((w) => w.placeholder).join(', ')})`;
+    return { sql, values: written.map((w) => w.value) };
+  }
+
+  /**
+   * Compile the multi-row INSERT statement run by {@link batchInsertData}. Columns are taken
+   * from the first row; missing keys in later rows insert NULL.
+   * @param table Table name
+   * @param data Rows to insert (at least one)
+   * @returns The SQL and its ordered bind values
+   */
+  public compileBatchInsert(
+    table: string,
+    data: Array<{ [k: string]: WriteValue }>
+  ): CompiledQuery {
+    const firstItem = data[0];
+    if (!firstItem) {
+      throw new Error('compileBatchInsert requires at least one row');
+    }
+    const keys = Object.keys(firstItem);
+
+    // Build values array - flatten all values, using null for missing keys
+    const values: BindValue[] = [];
+    const rowPlaceholders = data.map((item) => {
+      const placeholders = keys.map((key) => {
+        const value = item[key];
+        const written = this.buildWriteValue(table, key, value !== undefined ? value : null);
+        values.push(written.value);
+        return written.placeholder;
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+
+    // Build query with multiple value sets
+    const valuePlaceholders = rowPlaceholders.join(', ');
+    const sql = `INSERT INTO ${escapeId(table)} (${keys
+      .map((k) => escapeId(k))
+      .join(', ')}) VALUES ${valuePlaceholders}`;
+    return { sql, values };
+  }
+
+  /**
+   * Compile the UPDATE statement run by {@link updateData}.
+   * @param config Update configuration
+   * @returns The SQL and its ordered bind values (SET values, then WHERE values)
+   */
+  public compileUpdate(config: UpdateDataConfig): CompiledQuery {
+    const { table, data, where, values } = config;
+
+    // Validate WHERE clauses to prevent SQL injection
+    where.forEach((clause) => this.validateSqlClause(clause, 'WHERE clause'));
+
+    const keys = Object.keys(data);
+    const written = keys.map((key) => this.buildWriteValue(table, key, data[key]!));
+    const sql = `UPDATE ${escapeId(table)} SET ${keys
+      .map((k, i) => `${escapeId(k)} = ${written[i]!.placeholder}`)
+      .join(', ')} WHERE ${where.join(' AND ')}`;
+    return { sql, values: [...written.map((w) => w.value), ...(values || [])] };
+  }
+
+  /**
+   * Placeholder and bind value for one written column value: a column's write converter is
+   * applied first; GeoJSON geometries are bound as GeoJSON text through
+   * `ST_GeomFromGeoJSON(?)` (with the column's SRID from the `srids` option), other arrays and objects as JSON text (never expanded into SQL
+   * lists by mysql2), and scalars as plain `?`.
+   */
+  private buildWriteValue(
+    table: string,
+    column: string,
+    value: WriteValue
+  ): {
+    placeholder: string;
+    value: BindValue;
+  } {
+    const converter = this.findColumnConverter([`${table}.${column}`, column], 'write');
+    if (converter?.write) {
+      return { placeholder: '?', value: converter.write(value) };
+    }
+    if (this.isGeoJsonGeometry(value)) {
+      const srid = [`${table}.${column}`, column]
+        .map((key) =>
+          Object.prototype.hasOwnProperty.call(this.srids, key) ? this.srids[key] : undefined
+        )
+        .find((candidate) => candidate !== undefined);
+      return { placeholder: this.geometryPlaceholder(srid), value: JSON.stringify(value) };
+    }
+    if (value instanceof Date) {
+      return { placeholder: '?', value };
+    }
+    if (Array.isArray(value) || this.isObject(value)) {
+      return { placeholder: '?', value: JSON.stringify(value) };
+    }
+    return { placeholder: '?', value };
+  }
+
+  /**
+   * Compile the DELETE statement run by {@link deleteData}.
+   * @param table Table name
+   * @param where Where conditions as key-value pairs
+   * @returns The SQL and its ordered bind values
+   */
+  public compileDelete(table: string, where: { [k: string]: BindValue }): CompiledQuery {
+    const sql = `DELETE FROM ${escapeId(table)} WHERE ${Object.keys(where)
+      .map((k) => `${escapeId(k)} = ?`)
+      .join(' AND ')}`;
+    return { sql, values: Object.values(where) };
+  }
+
+  /**
+   * Get multiple records with count
+   * @param query Query configuration
+   * @param values Parameter values for prepared statement
+   * @param options `count` strategy (or `skipCount`); `cursor` for keyset pagination
+   * @returns Promise resolving to rows, the count and the strategy that produced it (plus
+   *   cursors in cursor mode)
+   */
+  public async getData<T = unknown, F extends FieldMap = FieldMap>(
+    query: InferredQueryConfig<F>,
+    values: BindValue[] | undefined,
+    options: GetDataOptions & { cursor: CursorPagination }
+  ): Promise<CursorPage<ResolvedRow<T, F, B>>>;
+  public async getData<T = unknown, F extends FieldMap = FieldMap>(
+    query: InferredQueryConfig<F>,
+    values?: BindValue[],
+    options?: GetDataOptions
+  ): Promise<{ rows: ResolvedRow<T, F, B>[]; count: number; countStrategy: CountStrategy }>;
+  public async getData(
+    query: QueryConfig<any>,
+    values: BindValue[] = [],
+    options?: GetDataOptions
+  ): Promise<{ rows: any[]; count: number; countStrategy: CountStrategy }> {
+    const queryLogger = getQueryLogger();
+    const startTime = Date.now();
+
+    this.assertLockingRead(query, options?.transaction, 'getData');
+    const connection = options?.transaction?.getConnection() ?? this.pool;
+    const cursor = options?.cursor;
+    const strategy: CountStrategy = options?.count ?? (options?.skipCount ? 'none' : 'exact');
+    if (strategy === 'window') {
+      this.assertWindowCount(query, cursor);
+    }
+    const keyset = cursor ? this.buildKeysetConfig(query, cursor) : null;
+    const rowsConfig = keyset ? keyset.config : query;
+    const { sql, values: allValues } = this.compile(
+      strategy === 'window'
+        ? {
+            ...rowsConfig,
+            fields: { ...rowsConfig.fields, [WINDOW_COUNT_ALIAS]: { raw: 'COUNT(*) OVER()' } },
+          }
+        : rowsConfig,
+      values
+    );
+
+    try {
+      if (this.isDev) {
+        console.log(colors.cyan('Values:'), allValues);
+      }
+
+      // A transaction owns a single connection, so its queries run one after the other;
+      // on the pool the rows and count queries can run in parallel on separate connections.
+      const [rowsResult, counted] = options?.transaction
+        ? [
+            await this.queryRows(connection, sql, allValues, rowsConfig),
+            await this.countRows(query, values, strategy, options.transaction),
+          ]
+        : await Promise.all([
+            this.queryRows(connection, sql, allValues, rowsConfig),
+            this.countRows(query, values, strategy),
+          ]);
+
+      const [rows] = rowsResult;
+
+      const duration = Date.now() - startTime;
+      queryLogger.logQuery(sql, allValues, duration);
+
+      let result = counted;
+      if (strategy === 'window') {
+        const windowRows = rows as Array<Record<string, unknown>>;
+        const total = windowRows[0]?.[WINDOW_COUNT_ALIAS];
+        windowRows.forEach((row) => delete row[WINDOW_COUNT_ALIAS]);
+        result =
+          total !== undefined
+            ? { count: Number(total), countStrategy: 'window' }
+            : (query.offset ?? 0) > 0
+              ? await this.countRows(query, values, 'exact', options?.transaction)
+              : { count: 0, countStrategy: 'window' };
+      }
+
+      if (keyset && cursor) {
+        const page = this.buildCursorPage(
+          rows as Array<Record<string, unknown>>,
+          query.limit!,
+          keyset,
+          cursor
+        );
+        return { ...page, ...result! };
+      }
+      return {
+        rows: rows as any[],
+        ...result!,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        queryLogger.logError(sql, error, allValues);
+      }
+
+      console.error('Error in getData:', error);
+      if (error instanceof Error && this.isDev) {
+        throw new Error(`Failed to fetch data: ${error.message}`);
+      } else {
+        throw new Error('Failed to fetch data: Database error occurred');
+      }
+    }
+  }
+
+  /**
+   * Compute the `count` for {@link getData} with the `'exact'`, `'estimate'` or `'none'`
+   * strategy. The `'window'` count is read from the rows, so this resolves to `null` for it.
+   * @param query Query configuration
+   * @param values User values for raw `?` placeholders
+   * @param strategy Count strategy
+   * @param transaction Optional transaction whose connection runs the query
+   * @returns The count and the strategy that produced it
+   */
+  private async countRows(
+    query: QueryConfig,
+    values: BindValue[],
+    strategy: CountStrategy,
+    transaction?: Transaction
+  ): Promise<{ count: number; countStrategy: CountStrategy } | null> {
+    const connection = transaction?.getConnection() ?? this.pool;
+    switch (strategy) {
+      case 'none':
+        return { count: -1, countStrategy: 'none' };
+      case 'window':
+        return null;
+      case 'estimate':
+        return {
+          count: await this.estimateRows(query, values, transaction),
+          countStrategy: 'estimate',
+        };
+      default: {
+        const countQuery = this.toSQL(query, { count: true, values });
+        const [countRows] = await connection.query(countQuery.sql, countQuery.values);
+        const countResult = (countRows as Array<{ count: number }>)[0];
+        return { count: Number(countResult?.count ?? 0), countStrategy: 'exact' };
+      }
+    }
+  }
+
+  /**
+   * Estimate the number of rows a query returns without counting them: `TABLE_ROWS` from
+   * `information_schema.TABLES` for an unfiltered single-table query, otherwise the product
+   * of the optimizer's per-table row estimates (after filtering) for the outer query block
+   * of `EXPLAIN FORMAT=JSON`.
+   * @param query Query configuration
+   * @param values User values for raw `?` placeholders
+   * @param transaction Optional transaction whose connection runs the query
+   * @returns The estimated row count
+   */
+  private async estimateRows(
+    query: QueryConfig,
+    values: BindValue[],
+    transaction?: Transaction
+  ): Promise<number> {
+    const unfiltered =
+      typeof query.table === 'string' &&
+      !query.with &&
+      !query.joins?.length &&
+      !query.where?.length &&
+      !Object.keys(query.whereIn ?? {}).length &&
+      !Object.keys(query.whereNotIn ?? {}).length &&
+      !query.groupBy?.length &&
+      !query.having?.length &&
+      !query.distinct &&
+      !query.union?.length &&
+      !query.setOperations?.length;
+
+    if (unfiltered) {
+      const [schema, table] = (query.table as string).includes('.')
+        ? (query.table as string).split('.', 2)
+        : [null, query.table as string];
+      const sql = `SELECT TABLE_ROWS AS count FROM information_schema.TABLES WHERE TABLE_SCHEMA = ${
+        schema === null ? 'DATABASE()' : '?'
+      } AND TABLE_NAME = ?`;
+      const connection = transaction?.getConnection() ?? this.pool;
+      const [rows] = await connection.query(sql, schema === null ? [table] : [schema, table]);
+      const tableRows = (rows as Array<{ count: number | null }>)[0]?.count;
+      // Views have no TABLE_ROWS; fall through to the optimizer estimate
+      if (tableRows !== undefined && tableRows !== null) {
+        return Number(tableRows);
+      }
+    }
+
+    const { plan } = await this.explain(query, transaction ? { values, transaction } : { values });
+    const toNumber = (value: unknown): number | null =>
+      value === undefined || value === null || Number.isNaN(Number(value)) ? null : Number(value);
+
+    // Only tables joined in the outer query block (select_id 1) multiply into the result;
+    // subqueries and derived tables are separate blocks whose rows are not output rows
+    let tables = 0;
+    let estimate = 1;
+    const visit = (node: unknown): void => {
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      if (!this.isObject(node)) return;
+      if (node.select_id !== undefined && Number(node.select_id) !== 1) return;
 
-    if (this.isDev) {
-      console.log(colors.blue('Generated Query:'), colors.magenta(query));
-    }
+      if (typeof node.table_name === 'string' && typeof node.access_type === 'string') {
+        tables++;
+        estimate *=
+          (toNumber(node.rows_examined_per_scan) ?? 1) * ((toNumber(node.filtered) ?? 100) / 100);
+      }
+      Object.values(node).forEach(visit);
+    };
+    visit(plan);
 
-    return { query, additionalValues };
+    return tables === 0 ? 0 : Math.round(estimate);
   }
 
   /**
-   * Get multiple records with count
+   * Reject configurations whose rows cannot carry a correct `COUNT(*) OVER()` total: with
+   * DISTINCT or set operations the window is evaluated before rows are merged, and in
+   * cursor mode it would only count rows past the cursor.
+   */
+  private assertWindowCount(query: QueryConfig, cursor: CursorPagination | undefined): void {
+    if (query.distinct || query.union?.length || query.setOperations?.length || cursor) {
+      throw new Error(
+        "count 'window' cannot be combined with distinct, union, setOperations or cursor pagination"
+      );
+    }
+  }
+
+  /**
+   * Stream the rows of a query one at a time instead of buffering the whole result set.
+   * The query runs on a dedicated pool connection through the mysql2 streaming API; reading
+   * pauses while the consumer is busy (backpressure), so memory use stays flat however many
+   * rows there are. Breaking out of the loop or aborting the `signal` closes the connection,
+   * since the rest of the result set cannot be skipped. The query is logged when the stream
+   * ends, with its total duration and row count.
+   *
+   * @example
+   * for await (const row of orm.stream({ table: 'events', idField: 'id', fields: { id: 'id' } })) {
+   *   await write(row);
+   * }
+   *
    * @param query Query configuration
    * @param values Parameter values for prepared statement
-   * @returns Promise resolving to rows and total count
+   * @param options `signal` to cancel and `highWaterMark` to size the read-ahead buffer
+   * @returns Async iterable of rows, typed as with `getData`
    */
-  public async getData<T = unknown, F extends FieldMap = FieldMap>(
+  public async *stream<T = unknown, F extends FieldMap = FieldMap>(
     query: InferredQueryConfig<F>,
-    values?: Array<string | number | boolean | null>,
-    options?: { skipCount?: boolean }
-  ): Promise<{ rows: ResolvedRow<T, F>[]; count: number }>;
-  public async getData(
-    query: QueryConfig<any>,
-    values: Array<string | number | boolean | null> = [],
-    options?: { skipCount?: boolean }
-  ): Promise<{ rows: any[]; count: number }> {
+    values: BindValue[] = [],
+    options: StreamOptions = {}
+  ): AsyncGenerator<ResolvedRow<T, F, B>, void, undefined> {
+    const { signal, highWaterMark } = options;
+    this.assertLockingRead(query, undefined, 'stream');
+    const { sql, values: allValues } = this.compile(query, values);
+    if (signal?.aborted) {
+      throw this.abortReason(signal);
+    }
+
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
-
-    const queryResult = this.buildQuery(query);
-    const allValues = [...values, ...queryResult.additionalValues];
-
+    const connection = await this.pool.getConnection();
+    // The signal may have fired while waiting for a connection; no query has been sent yet
+    if (signal?.aborted) {
+      connection.release();
+      throw this.abortReason(signal);
+    }
+    // The promise wrapper exposes the callback-style connection, which supports streaming
+    const core = connection.connection as unknown as CoreConnection;
+    const typeCast = this.rowsTypeCast(query);
+    const rowStream = (
+      typeCast ? core.query({ sql, typeCast }, allValues) : core.query(sql, allValues)
+    ).stream(highWaterMark === undefined ? {} : { highWaterMark });
+    const onAbort = (): void => {
+      // Any error ends the read; the catch below rethrows the signal's reason
+      rowStream.destroy(new Error('The operation was aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let rowCount = 0;
+    let finished = false;
+    let failed = false;
     try {
-      if (this.isDev) {
-        console.log(colors.cyan('Values:'), allValues);
+      for await (const row of rowStream) {
+        rowCount++;
+        yield row as ResolvedRow<T, F, B>;
+      }
+      finished = true;
+    } catch (error) {
+      failed = true;
+      if (signal?.aborted) {
+        throw this.abortReason(signal);
+      }
+      if (error instanceof Error) {
+        queryLogger.logError(sql, error, allValues);
       }
 
-      if (options?.skipCount) {
-        const [rowsResult] = await this.pool.query(queryResult.query, allValues);
+      console.error('Error in stream:', error);
+      if (error instanceof Error && this.isDev) {
+        throw new Error(`Failed to stream data: ${error.message}`);
+      } else {
+        throw new Error('Failed to stream data: Database error occurred');
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!failed) {
+        queryLogger.logQuery(sql, allValues, Date.now() - startTime, rowCount);
+      }
+      if (finished) {
+        connection.release();
+      } else {
+        // Unread rows are still in flight on this connection; it cannot be reused
+        rowStream.destroy();
+        connection.destroy();
+      }
+    }
+  }
 
-        const duration = Date.now() - startTime;
-        queryLogger.logQuery(queryResult.query, allValues, duration);
+  /**
+   * The error an aborted {@link stream} rejects with: the signal's `reason`, or an
+   * `AbortError` on runtimes whose `AbortSignal` has no `reason` (before Node 17.2).
+   */
+  private abortReason(signal: AbortSignal): unknown {
+    if (signal.reason !== undefined) return signal.reason;
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+  }
 
-        return {
-          rows: rowsResult as any[],
-          count: -1,
-        };
+  /**
+   * Walk every row matching a query in chunks ordered by key — `WHERE key > ? ORDER BY key
+   * LIMIT size` under the hood, using the same seek predicates as cursor pagination, so each
+   * chunk is an index range scan however far into the table it is. The config's `where`,
+   * `joins` and other clauses are respected; it must not set `orderBy`, `limit` or `offset`.
+   *
+   * Chunks are read one after another, but with `concurrency` up to that many callbacks run
+   * at once. `onProgress` reports a `checkpoint` only once every earlier chunk has finished,
+   * so resuming from it never skips rows. If a callback or `onProgress` throws, or a chunk
+   * read fails, no further chunks are read and the error is rethrown once the running
+   * callbacks settle.
+   *
+   * @example
+   * await orm.eachChunk(
+   *   { table: 'users', idField: 'id', fields: { id: 'id', email: 'email' } },
+   *   [],
+   *   { size: 1000, resumeFrom: saved, onProgress: ({ checkpoint }) => save(checkpoint) },
+   *   async (rows) => backfill(rows)
+   * );
+   *
+   * @param query Query configuration
+   * @param values Parameter values for raw `?` placeholders, bound in every chunk query
+   * @param options Chunk `size`, `key`, `concurrency`, `resumeFrom`, `onProgress`, `transaction`
+   * @param callback Called with each chunk's rows
+   * @returns Promise resolving to the totals and final checkpoint
+   */
+  public async eachChunk<T = unknown, F extends FieldMap = FieldMap>(
+    query: InferredQueryConfig<F>,
+    values: BindValue[] | undefined,
+    options: EachChunkOptions,
+    callback: (rows: ResolvedRow<T, F, B>[], chunk: ChunkInfo) => Promise<void>
+  ): Promise<ChunkProgress>;
+  public async eachChunk(
+    query: QueryConfig,
+    values: BindValue[] = [],
+    options: EachChunkOptions,
+    callback: (rows: Record<string, unknown>[], chunk: ChunkInfo) => Promise<void>
+  ): Promise<ChunkProgress> {
+    const { size, key, concurrency = 1, onProgress } = options;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error('eachChunk: size must be a positive integer');
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('eachChunk: concurrency must be a positive integer');
+    }
+    if (query.orderBy !== undefined || query.limit !== undefined || query.offset !== undefined) {
+      throw new Error(
+        'eachChunk walks rows by key: remove orderBy, limit and offset from the config'
+      );
+    }
+    this.assertLockingRead(query, undefined, 'eachChunk');
+
+    const chunkConfig: QueryConfig = {
+      ...query,
+      orderBy: (Array.isArray(key) ? key : [key ?? query.idField]).map((column) => ({
+        column,
+        direction: 'ASC' as const,
+      })),
+      limit: size,
+    };
+
+    const progress: ChunkProgress = { chunks: 0, rows: 0, checkpoint: options.resumeFrom ?? null };
+    // Chunks in read order that have not yet been reported; reported once all before are done
+    const unreported: Array<{ done: boolean; rows: number; checkpoint: string }> = [];
+    let reporting: Promise<void> = Promise.resolve();
+    const running = new Set<Promise<void>>();
+    let failure: { error: unknown } | null = null;
+
+    let after = progress.checkpoint;
+    for (let index = 0; !failure; index++) {
+      const keyset = this.buildKeysetConfig(chunkConfig, after ? { after } : {});
+      // User values splice in at the WHERE clause, ahead of the seek predicate's values
+      const compiled = this.compile(keyset.config, values);
+      let rows: Array<Record<string, unknown>>;
+      try {
+        rows = await this.fetchChunk(compiled.sql, compiled.values, keyset.config);
+      } catch (error) {
+        failure ??= { error };
+        break;
+      }
+      const chunkRows = rows.slice(0, size);
+      const last = chunkRows[chunkRows.length - 1];
+      if (!last) break;
+
+      const checkpoint = this.encodeCursor(last, keyset.keys);
+      const entry = { done: false, rows: chunkRows.length, checkpoint };
+      unreported.push(entry);
+
+      const chunk = { index, checkpoint };
+      const task = (
+        options.transaction
+          ? this.withTransaction((transaction) => callback(chunkRows, { ...chunk, transaction }))
+          : callback(chunkRows, chunk)
+      )
+        .then(() => {
+          entry.done = true;
+          while (unreported[0]?.done) {
+            const finished = unreported.shift()!;
+            progress.chunks++;
+            progress.rows += finished.rows;
+            progress.checkpoint = finished.checkpoint;
+            if (onProgress) {
+              const snapshot = { ...progress };
+              // A failed report stops the walk; later reports are skipped
+              reporting = reporting
+                .then(() => (failure ? undefined : onProgress(snapshot)))
+                .catch((error: unknown) => {
+                  failure ??= { error };
+                });
+            }
+          }
+        })
+        .catch((error: unknown) => {
+          failure ??= { error };
+        })
+        .finally(() => running.delete(task));
+      running.add(task);
+
+      if (running.size >= concurrency) {
+        await Promise.race(running);
       }
+      if (rows.length <= size) break;
+      after = checkpoint;
+    }
 
-      const countQueryResult = this.buildQuery(query, true);
-      const allCountValues = [...values, ...countQueryResult.additionalValues];
+    await Promise.all(running);
+    await reporting;
+    if (failure) {
+      throw (failure as { error: unknown }).error;
+    }
+    return progress;
+  }
 
-      const [rowsResult, countRowsResult] = await Promise.all([
-        this.pool.query(queryResult.query, allValues),
-        this.pool.query(countQueryResult.query, allCountValues),
-      ]);
+  /**
+   * Run one {@link eachChunk} read on the pool, with logging and the standard error wrapping.
+   * @param sql Chunk query
+   * @param values Bind values
+   * @param config Query configuration the chunk query was compiled from
+   * @returns The chunk rows (plus the look-ahead row, if any)
+   */
+  private async fetchChunk(
+    sql: string,
+    values: BindValue[],
+    config: QueryConfig
+  ): Promise<Array<Record<string, unknown>>> {
+    const queryLogger = getQueryLogger();
+    const startTime = Date.now();
 
-      const [rows] = rowsResult;
-      const [countRows] = countRowsResult;
+    try {
+      const [rows] = await this.queryRows(this.pool, sql, values, config);
 
       const duration = Date.now() - startTime;
-      queryLogger.logQuery(queryResult.query, allValues, duration);
+      queryLogger.logQuery(sql, values, duration);
 
-      const countResult = (countRows as Array<{ count: number }>)[0];
-      return {
-        rows: rows as any[],
-        count: countResult?.count || 0,
-      };
+      return rows as Array<Record<string, unknown>>;
     } catch (error) {
       if (error instanceof Error) {
-        queryLogger.logError(queryResult.query, error, allValues);
+        queryLogger.logError(sql, error, values);
       }
 
-      console.error('Error in getData:', error);
+      console.error('Error in eachChunk:', error);
       if (error instanceof Error && this.isDev) {
         throw new Error(`Failed to fetch data: ${error.message}`);
       } else {
@@ -971,39 +4134,42 @@ export class MySQLORM {
    * Get the first matching record
    * @param query Query configuration
    * @param values Parameter values for prepared statement
+   * @param transaction Optional transaction instance (required for locking reads)
    * @returns Promise resolving to first matching record or null
    */
   public async getFirst<T = unknown, F extends FieldMap = FieldMap>(
     query: InferredQueryConfig<F>,
-    values?: Array<string | number | boolean | null>
-  ): Promise<ResolvedRow<T, F> | null>;
+    values?: BindValue[],
+    transaction?: Transaction
+  ): Promise<ResolvedRow<T, F, B> | null>;
   public async getFirst(
     query: QueryConfig<any>,
-    values: Array<string | number | boolean | null> = []
+    values: BindValue[] = [],
+    transaction?: Transaction
   ): Promise<any | null> {
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
 
-    const queryWithLimit = { ...query, limit: 1 };
-    const queryResult = this.buildQuery(queryWithLimit);
+    this.assertLockingRead(query, transaction, 'getFirst');
+    const connection = transaction?.getConnection() ?? this.pool;
 
-    // Combine user-provided values with additional values from whereIn/having
-    const allValues = [...values, ...queryResult.additionalValues];
+    const queryWithLimit = { ...query, limit: 1 };
+    const { sql, values: allValues } = this.compile(queryWithLimit, values);
 
     if (this.isDev) {
       console.log(colors.cyan('Values:'), allValues);
     }
 
     try {
-      const [rows] = await this.pool.query(queryResult.query, allValues);
+      const [rows] = await this.queryRows(connection, sql, allValues, queryWithLimit);
 
       const duration = Date.now() - startTime;
-      queryLogger.logQuery(queryResult.query, allValues, duration);
+      queryLogger.logQuery(sql, allValues, duration);
 
       return (rows as any[])[0] || null;
     } catch (error) {
       if (error instanceof Error) {
-        queryLogger.logError(queryResult.query, error, allValues);
+        queryLogger.logError(sql, error, allValues);
       }
 
       console.error('Error in getFirst:', error);
@@ -1015,27 +4181,397 @@ export class MySQLORM {
     }
   }
 
+  /**
+   * Run an aggregate query: the `groupBy` columns plus SUM / AVG / MIN / MAX / COUNT /
+   * COUNT(DISTINCT) metrics, with numeric results converted to numbers (MySQL returns DECIMAL
+   * sums and averages as strings). With `rollup`, super-aggregate rows are included.
+   * @param config Aggregate configuration
+   * @param values Parameter values for raw `?` placeholders
+   * @param transaction Optional transaction instance
+   * @returns Promise resolving to one row per group (a single row without `groupBy`)
+   *
+   * @example
+   * const rows = await orm.aggregate({
+   *   table: 'orders',
+   *   where: [{ column: 'status', op: '=', value: 'paid' }],
+   *   groupBy: ['country'],
+   *   metrics: { revenue: { sum: 'total' }, buyers: { countDistinct: 'user_id' } },
+   * });
+   * // rows: Array<{ country: unknown; revenue: number | null; buyers: number }>
+   */
+  public async aggregate<
+    M extends { [alias: string]: AggregateMetric },
+    G extends string = never,
+    F extends FieldMap = FieldMap,
+  >(
+    config: AggregateConfig<M, G, F>,
+    values: BindValue[] = [],
+    transaction?: Transaction
+  ): Promise<Array<AggregateRow<M, G, F>>> {
+    const queryLogger = getQueryLogger();
+    const startTime = Date.now();
+
+    const connection = transaction?.getConnection() ?? this.pool;
+    // Built as a nested query: no default ORDER BY, which an ungrouped aggregate can't use
+    const query = this.buildAggregateConfig(config);
+    const built = this.buildQuery(query, false, true);
+    const sql = built.query;
+    const allValues = this.mergeValues(built, values);
+
+    if (this.isDev) {
+      console.log(colors.cyan('Values:'), allValues);
+    }
+
+    let rows: Array<Record<string, unknown>>;
+    try {
+      const [result] = await this.queryRows(connection, sql, allValues, query);
+      rows = result as Array<Record<string, unknown>>;
+
+      const duration = Date.now() - startTime;
+      queryLogger.logQuery(sql, allValues, duration);
+    } catch (error) {
+      if (error instanceof Error) {
+        queryLogger.logError(sql, error, allValues);
+      }
+
+      console.error('Error in aggregate:', error);
+      if (error instanceof Error && this.isDev) {
+        throw new Error(`Failed to fetch data: ${error.message}`);
+      } else {
+        throw new Error('Failed to fetch data: Database error occurred');
+      }
+    }
+
+    const numeric = Object.keys(config.metrics).filter((alias) => {
+      const metric = config.metrics[alias]!;
+      return !('min' in metric) && !('max' in metric);
+    });
+    return rows.map((row) => {
+      const converted = { ...row };
+      for (const alias of numeric) {
+        const value = converted[alias];
+        converted[alias] = value === null || value === undefined ? null : Number(value);
+      }
+      return converted as AggregateRow<M, G, F>;
+    });
+  }
+
+  /**
+   * Translate an {@link AggregateConfig} into a {@link QueryConfig}: group columns are
+   * selected under their own names and each metric becomes an escaped aggregate expression.
+   */
+  private buildAggregateConfig(config: AggregateConfig<any, string, FieldMap>): QueryConfig {
+    const { metrics, fields: aliases = {}, groupBy, ...rest } = config;
+    const groups = groupBy === undefined ? [] : Array.isArray(groupBy) ? groupBy : [groupBy];
+    const aliasConfig: QueryConfig = { table: config.table, idField: '', fields: aliases };
+    const fields: FieldMap = {};
+
+    for (const group of groups) {
+      fields[group] = Object.prototype.hasOwnProperty.call(aliases, group)
+        ? aliases[group]!
+        : group;
+    }
+
+    for (const alias of Object.keys(metrics)) {
+      if (Object.prototype.hasOwnProperty.call(fields, alias)) {
+        throw new Error(`Aggregate metric "${alias}" clashes with a groupBy column`);
+      }
+      const metric = metrics[alias] as Record<string, string | TypedColumn>;
+      const keys = Object.keys(metric);
+      const fn =
+        keys.length === 1 && Object.prototype.hasOwnProperty.call(AGGREGATE_METRICS, keys[0]!)
+          ? AGGREGATE_METRICS[keys[0]!]
+          : undefined;
+      if (!fn) {
+        throw new Error(
+          `Aggregate metric "${alias}" must have exactly one of: ${Object.keys(AGGREGATE_METRICS).join(', ')}`
+        );
+      }
+      const target = metric[keys[0]!]!;
+      const column = this.isTypedColumn(target) ? target.__column : target;
+      const argument =
+        column === '*' && keys[0] === 'count'
+          ? '*'
+          : this.resolveAggregateTarget(alias, column, aliasConfig);
+      const distinct = keys[0] === 'countDistinct' ? 'DISTINCT ' : '';
+      fields[alias] = { raw: `${fn}(${distinct}${argument})` };
+    }
+
+    if (Object.keys(fields).length === 0) {
+      throw new Error('aggregate requires at least one metric or groupBy column');
+    }
+
+    return {
+      ...rest,
+      fields,
+      idField: groups[0] ?? '',
+      ...(groups.length > 0 ? { groupBy: groups } : {}),
+    };
+  }
+
+  /**
+   * The SQL a metric aggregates: a `{ raw }` field alias resolves to its expression, any other
+   * name to an escaped column (through column and {@link col} aliases).
+   * @throws Error for an alias of a window function or other structured field
+   */
+  private resolveAggregateTarget(alias: string, column: string, aliasConfig: QueryConfig): string {
+    const field = Object.prototype.hasOwnProperty.call(aliasConfig.fields, column)
+      ? aliasConfig.fields[column]
+      : undefined;
+    if (this.isObject(field) && 'raw' in field && typeof field.raw === 'string') {
+      this.validateSqlClause(field.raw, 'raw SQL field');
+      return field.raw;
+    }
+    if (this.isWindowField(field)) {
+      throw new Error(
+        `Aggregate metric "${alias}" cannot aggregate the window function field "${column}"`
+      );
+    }
+    if (field !== undefined && typeof field !== 'string' && !this.isTypedColumn(field)) {
+      throw new Error(
+        `Aggregate metric "${alias}" must target a column or a { raw } field, not "${column}"`
+      );
+    }
+    return escapeId(this.resolveColumnName(column, aliasConfig));
+  }
+
+  /**
+   * Count the records matching a query (the COUNT query {@link getData} runs alongside its
+   * rows query; grouped queries count groups)
+   * @param query Query configuration
+   * @param values Parameter values for prepared statement
+   * @param transaction Optional transaction instance
+   * @returns Promise resolving to the number of matching records
+   */
+  public async getCount(
+    query: QueryConfig,
+    values: BindValue[] = [],
+    transaction?: Transaction
+  ): Promise<number> {
+    const queryLogger = getQueryLogger();
+    const startTime = Date.now();
+
+    const connection = transaction?.getConnection() ?? this.pool;
+    const { sql, values: allValues } = this.toSQL(query, { count: true, values });
+
+    if (this.isDev) {
+      console.log(colors.cyan('Values:'), allValues);
+    }
+
+    try {
+      const [rows] = await connection.query(sql, allValues);
+
+      const duration = Date.now() - startTime;
+      queryLogger.logQuery(sql, allValues, duration);
+
+      return Number((rows as Array<{ count: number }>)[0]?.count ?? 0);
+    } catch (error) {
+      if (error instanceof Error) {
+        queryLogger.logError(sql, error, allValues);
+      }
+
+      console.error('Error in getCount:', error);
+      if (error instanceof Error && this.isDev) {
+        throw new Error(`Failed to fetch data: ${error.message}`);
+      } else {
+        throw new Error('Failed to fetch data: Database error occurred');
+      }
+    }
+  }
+
+  /**
+   * EXPLAIN a query configuration and summarise the plan: per-table access type, index,
+   * rows examined, and warnings for full table / index scans, filesort and temporary tables.
+   * `format: 'json'` parses `EXPLAIN FORMAT=JSON` (version 1 documents); `'tree'` and
+   * `analyze` parse `EXPLAIN FORMAT=TREE` / `EXPLAIN ANALYZE` output.
+   * @param query Query configuration
+   * @param options `analyze`, `format`, `count`, `values` and `transaction`
+   * @returns Promise resolving to the structured plan
+   */
+  public async explain(query: QueryConfig, options: ExplainOptions = {}): Promise<ExplainResult> {
+    const format = options.format ?? (options.analyze ? 'tree' : 'json');
+    if (options.analyze && format !== 'tree') {
+      throw new Error("explain: EXPLAIN ANALYZE only supports format 'tree'");
+    }
+
+    const { sql, values } = this.toSQL(query, {
+      count: options.count ?? false,
+      values: options.values ?? [],
+    });
+    const prefix = options.analyze
+      ? 'EXPLAIN ANALYZE'
+      : `EXPLAIN FORMAT=${format === 'json' ? 'JSON' : 'TREE'}`;
+    const explainSql = `${prefix} ${sql}`;
+
+    const queryLogger = getQueryLogger();
+    const startTime = Date.now();
+
+    try {
+      const connection = options.transaction?.getConnection() ?? this.pool;
+      const [rows] = await connection.query(explainSql, values);
+
+      const duration = Date.now() - startTime;
+      queryLogger.logQuery(explainSql, values, duration);
+
+      const firstRow = (rows as Array<Record<string, unknown>>)[0];
+      const output = firstRow ? Object.values(firstRow)[0] : undefined;
+      if (typeof output !== 'string') {
+        throw new Error('the server returned no plan');
+      }
+
+      // Parse inside the try so a malformed plan surfaces as a "Failed to explain" error
+      const parsed = format === 'json' ? this.parseJsonPlan(output) : this.parseTreePlan(output);
+      return { sql, values, format, ...parsed };
+    } catch (error) {
+      if (error instanceof Error) {
+        queryLogger.logError(explainSql, error, values);
+      }
+
+      console.error('Error in explain:', error);
+      if (error instanceof Error && this.isDev) {
+        throw new Error(`Failed to explain query: ${error.message}`);
+      } else {
+        throw new Error('Failed to explain query: Database error occurred');
+      }
+    }
+  }
+
+  /**
+   * Summarise an `EXPLAIN FORMAT=JSON` (version 1) document. Table entries are collected
+   * wherever they appear (nested loops, derived tables, subqueries, unions).
+   * @param output The JSON plan text
+   * @returns Cost, tables, warnings and the parsed document
+   */
+  private parseJsonPlan(
+    output: string
+  ): Pick<ExplainResult, 'cost' | 'tables' | 'warnings' | 'plan'> {
+    const plan = JSON.parse(output) as Record<string, unknown>;
+    const tables: ExplainTablePlan[] = [];
+    const warnings = new Set<string>();
+    const toNumber = (value: unknown): number | null =>
+      value === undefined || value === null || Number.isNaN(Number(value)) ? null : Number(value);
+
+    const visit = (node: unknown): void => {
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      if (!this.isObject(node)) return;
+
+      if (typeof node.table_name === 'string' && typeof node.access_type === 'string') {
+        tables.push({
+          table: node.table_name,
+          accessType: node.access_type,
+          key: typeof node.key === 'string' ? node.key : null,
+          possibleKeys: Array.isArray(node.possible_keys) ? node.possible_keys.map(String) : [],
+          rowsExamined: toNumber(node.rows_examined_per_scan),
+          filtered: toNumber(node.filtered),
+        });
+      }
+      if (node.using_filesort === true) warnings.add('Using filesort');
+      if (node.using_temporary_table === true) warnings.add('Using temporary table');
+
+      Object.values(node).forEach(visit);
+    };
+    visit(plan);
+
+    const queryBlock = plan.query_block;
+    const costInfo = this.isObject(queryBlock) ? queryBlock.cost_info : undefined;
+    const cost = this.isObject(costInfo) ? toNumber(costInfo.query_cost) : null;
+
+    return {
+      cost,
+      tables,
+      warnings: [...this.getScanWarnings(tables), ...warnings],
+      plan,
+    };
+  }
+
+  /**
+   * Summarise `EXPLAIN FORMAT=TREE` / `EXPLAIN ANALYZE` output. With actual timings, rows
+   * examined are the actual rows times loops; otherwise the optimizer's estimate.
+   * @param output The tree plan text
+   * @returns Cost, tables, warnings and the plan text
+   */
+  private parseTreePlan(
+    output: string
+  ): Pick<ExplainResult, 'cost' | 'tables' | 'warnings' | 'plan'> {
+    const tables: ExplainTablePlan[] = [];
+    const warnings = new Set<string>();
+    let cost: number | null = null;
+
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trim().replace(/^-> /, '');
+      if (!line) continue;
+
+      if (cost === null) {
+        const costMatch = /\(cost=([\d.e+]+)/.exec(line);
+        if (costMatch) cost = Number(costMatch[1]);
+      }
+      if (/^Sort(?: with duplicate removal)?:/.test(line)) warnings.add('Using filesort');
+      if (/^(?:Temporary table|Materialize)\b/.test(line)) warnings.add('Using temporary table');
+
+      const access = TREE_ACCESS_TYPES.find(([description]) => line.startsWith(`${description} `));
+      if (!access) continue;
+      const [description, accessType] = access;
+      const target = /^(?:on )?(\S+)(?: using (\S+))?/.exec(line.slice(description.length + 1));
+      if (!target) continue;
+
+      const actual = /\(actual time=[^)]*?rows=([\d.e+]+) loops=(\d+)\)/.exec(line);
+      const estimate = /\(cost=[^)]*?rows=([\d.e+]+)\)|\(rows=([\d.e+]+)\)/.exec(line);
+      const rowsExamined = actual
+        ? Number(actual[1]) * Number(actual[2])
+        : estimate
+          ? Number(estimate[1] ?? estimate[2])
+          : null;
+
+      tables.push({
+        table: target[1]!,
+        accessType,
+        key: target[2] ?? null,
+        possibleKeys: [],
+        rowsExamined,
+        filtered: null,
+      });
+    }
+
+    return {
+      cost,
+      tables,
+      warnings: [...this.getScanWarnings(tables), ...warnings],
+      plan: output,
+    };
+  }
+
+  /**
+   * Warnings for tables read by a full table scan or a full index scan.
+   * @param tables Table plans
+   * @returns Warning messages in table order
+   */
+  private getScanWarnings(tables: ExplainTablePlan[]): string[] {
+    return tables.flatMap((table) => {
+      if (table.accessType === 'ALL') return [`Full table scan on "${table.table}"`];
+      if (table.accessType === 'index') return [`Full index scan on "${table.table}"`];
+      return [];
+    });
+  }
+
   /**
    * Insert new record into database
    * @param table Table name
    * @param data Data to insert
    * @param transaction Optional transaction instance
-   * @returns Promise resolving to insert ID
+   * @returns Promise resolving to insert ID (typed by the `bigNumbers` mode)
    */
   public async insertData(
     table: string,
-    data: { [k: string]: string | number | boolean | null },
+    data: { [k: string]: WriteValue },
     transaction?: Transaction
-  ): Promise<number> {
+  ): Promise<BigNumber<B>> {
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
 
-    const keys = Object.keys(data);
-    const values = Object.values(data);
-
-    const query = `INSERT INTO ${escapeId(table)} (${keys
-      .map((k) => escapeId(k))
-      .join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`;
+    const { sql: query, values } = this.compileInsert(table, data);
 
     if (this.isDev) {
       console.log(colors.blue('Insert Query:'), query);
@@ -1049,7 +4585,7 @@ export class MySQLORM {
       const duration = Date.now() - startTime;
       queryLogger.logQuery(query, values, duration);
 
-      return result.insertId;
+      return this.toBigNumber(result.insertId);
     } catch (error) {
       if (error instanceof Error) {
         queryLogger.logError(query, error, values);
@@ -1072,37 +4608,17 @@ export class MySQLORM {
    */
   public async batchInsertData(
     table: string,
-    data: Array<{ [k: string]: string | number | boolean | null }>,
+    data: Array<{ [k: string]: WriteValue }>,
     transaction?: Transaction
-  ): Promise<{ firstInsertId: number; affectedRows: number }> {
+  ): Promise<{ firstInsertId: BigNumber<B>; affectedRows: number }> {
     if (!data || data.length === 0) {
-      return { firstInsertId: 0, affectedRows: 0 };
+      return { firstInsertId: this.toBigNumber(0), affectedRows: 0 };
     }
 
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
 
-    // Get keys from first object (assumes all objects have same structure)
-    const firstItem = data[0];
-    if (!firstItem) {
-      return { firstInsertId: 0, affectedRows: 0 };
-    }
-    const keys = Object.keys(firstItem);
-
-    // Build values array - flatten all values, using null for missing keys
-    const allValues: Array<string | number | boolean | null> = [];
-    data.forEach((item) => {
-      keys.forEach((key) => {
-        const value = item[key];
-        allValues.push(value !== undefined ? value : null);
-      });
-    });
-
-    // Build query with multiple value sets
-    const valuePlaceholders = data.map(() => `(${keys.map(() => '?').join(', ')})`).join(', ');
-    const query = `INSERT INTO ${escapeId(table)} (${keys
-      .map((k) => escapeId(k))
-      .join(', ')}) VALUES ${valuePlaceholders}`;
+    const { sql: query, values: allValues } = this.compileBatchInsert(table, data);
 
     if (this.isDev) {
       console.log(colors.blue('Batch Insert Query:'), query);
@@ -1117,7 +4633,7 @@ export class MySQLORM {
       queryLogger.logQuery(query, allValues, duration);
 
       return {
-        firstInsertId: result.insertId,
+        firstInsertId: this.toBigNumber(result.insertId),
         affectedRows: result.affectedRows,
       };
     } catch (error) {
@@ -1143,19 +4659,7 @@ export class MySQLORM {
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
 
-    const { table, data, where, values } = config;
-
-    const setKeys = Object.keys(data);
-    const setValues = Object.values(data);
-
-    // Validate WHERE clauses to prevent SQL injection
-    where.forEach((clause) => this.validateSqlClause(clause, 'WHERE clause'));
-
-    const query = `UPDATE ${escapeId(table)} SET ${setKeys
-      .map((k) => `${escapeId(k)} = ?`)
-      .join(', ')} WHERE ${where.join(' AND ')}`;
-
-    const allValues = [...setValues, ...(values || [])];
+    const { sql: query, values: allValues } = this.compileUpdate(config);
 
     if (this.isDev) {
       console.log(colors.blue('Update Query:'), query);
@@ -1192,18 +4696,13 @@ export class MySQLORM {
    */
   public async deleteData(
     table: string,
-    where: { [k: string]: string | number | boolean | null },
+    where: { [k: string]: BindValue },
     transaction?: Transaction
   ): Promise<number> {
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
 
-    const whereKeys = Object.keys(where);
-    const whereValues = Object.values(where);
-
-    const query = `DELETE FROM ${escapeId(table)} WHERE ${whereKeys
-      .map((k) => `${escapeId(k)} = ?`)
-      .join(' AND ')}`;
+    const { sql: query, values: whereValues } = this.compileDelete(table, where);
 
     if (this.isDev) {
       console.log(colors.blue('Delete Query:'), query);
@@ -1240,7 +4739,7 @@ export class MySQLORM {
    */
   public async rawQuery<T>(
     query: string,
-    values: Array<string | number | boolean | null> = [],
+    values: BindValue[] = [],
     transaction?: Transaction
   ): Promise<T[]> {
     const queryLogger = getQueryLogger();
@@ -1270,6 +4769,7 @@ export class MySQLORM {
    *
    * @param config Vector search configuration
    * @param values Optional parameterised values for WHERE clauses
+   * @param transaction Optional transaction instance
    * @returns Promise resolving to rows ordered by distance (closest first)
    *
    * @example
@@ -1284,7 +4784,8 @@ export class MySQLORM {
    */
   public async vectorSearch<T extends Record<string, any>>(
     config: VectorSearchConfig,
-    values: Array<string | number | boolean | null> = []
+    values: BindValue[] = [],
+    transaction?: Transaction
   ): Promise<VectorSearchResult<T>[]> {
     const queryLogger = getQueryLogger();
     const startTime = Date.now();
@@ -1343,7 +4844,8 @@ export class MySQLORM {
     }
 
     try {
-      const [rows] = await this.pool.query(query, values);
+      const connection = transaction?.getConnection() ?? this.pool;
+      const [rows] = await connection.query(query, values);
       const duration = Date.now() - startTime;
       queryLogger.logQuery(query, values, duration);
       return rows as VectorSearchResult<T>[];
@@ -1450,6 +4952,44 @@ export class MySQLORM {
     }
   }
 
+  /**
+   * Build a full-text BOOLEAN MODE search string from free-text user input. Boolean operators
+   * in the input (`+ - < > ( ) ~ * " @`) are stripped so they can't change the search or
+   * cause syntax errors; double-quoted phrases are kept as phrases.
+   * @param input User search input
+   * @param options `requireAll` (default true) prefixes every term with `+`; `prefix`
+   *                (default false) appends `*` to words for prefix matching
+   * @returns Search string for a {@link FullTextMatch} with `mode: 'boolean'` (empty when
+   *          the input has no searchable terms)
+   *
+   * @example
+   * MySQLORM.toBooleanSearch('"query cache" tun -ing', { prefix: true });
+   * // '+"query cache" +tun* +ing*'
+   */
+  public static toBooleanSearch(
+    input: string,
+    options: { requireAll?: boolean; prefix?: boolean } = {}
+  ): string {
+    const { requireAll = true, prefix = false } = options;
+    const words = (text: string): string[] =>
+      text
+        .replace(/[+\-<>()~*"@]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+
+    const terms: string[] = [];
+    const rest = input.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+      const phraseWords = words(phrase);
+      if (phraseWords.length > 0) terms.push(`"${phraseWords.join(' ')}"`);
+      return ' ';
+    });
+    for (const word of words(rest)) {
+      terms.push(prefix ? `${word}*` : word);
+    }
+
+    return terms.map((term) => (requireAll ? `+${term}` : term)).join(' ');
+  }
+
   /**
    * Convert a number array to MySQL STRING_TO_VECTOR() compatible format.
    * @param vector Array of finite floating-point numbers
@@ -0,0 +1,267 @@
+import type {
+  BigNumbersMode,
+  CompiledQuery,
+  CountStrategy,
+  CteDefinition,
+  CursorPage,
+  CursorPagination,
+  ExplainOptions,
+  ExplainResult,
+  FieldMap,
+  GetDataOptions,
+  HavingEntry,
+  IndexHint,
+  InferredQueryConfig,
+  JoinConfig,
+  JoinOnConfig,
+  LockConfig,
+  MySQLORM,
+  OptimizerHint,
+  QueryConfig,
+  ResolvedRow,
+  SetOperator,
+  StreamOptions,
+  ToSQLOptions,
+  Transaction,
+  WhereEntry,
+  WhereScalar,
+} from './mysql-orm';
+
+/** A query accepted where another query is expected: a builder or a plain {@link QueryConfig}. */
+type QuerySource = QueryBuilder<FieldMap, BigNumbersMode> | QueryConfig;
+
+/**
+ * Immutable, chainable builder for {@link QueryConfig}. Every method returns a new builder,
+ * so a partially built query can be shared and extended without affecting other uses.
+ * The selected fields are tracked in the type, so results are typed as with `getData`.
+ *
+ * Create one with {@link MySQLORM.from}.
+ *
+ * @example
+ * const { rows } = await orm
+ *   .from('users')
+ *   .select({ id: 'id', email: col<string>('email') })
+ *   .where({ column: 'status', op: '=', value: 'active' })
+ *   .orderBy('email')
+ *   .limit(20)
+ *   .get();
+ * // rows: Array<{ id: unknown; email: string }>
+ */
+export class QueryBuilder<
+  F extends FieldMap = Record<never, never>,
+  B extends BigNumbersMode = 'number',
+> {
+  private orm: MySQLORM<B>;
+  private config: QueryConfig;
+
+  constructor(orm: MySQLORM<B>, config: QueryConfig) {
+    this.orm = orm;
+    this.config = config;
+  }
+
+  /**
+   * Add fields to the SELECT list (merged with previously selected fields)
+   * @param fields Field map from result alias to column, expression or subquery
+   */
+  select<S extends FieldMap>(fields: S): QueryBuilder<Omit<F, keyof S> & S, B> {
+    return this.extend<Omit<F, keyof S> & S>({ fields: { ...this.config.fields, ...fields } });
+  }
+
+  /** Select DISTINCT rows */
+  distinct(distinct = true): QueryBuilder<F, B> {
+    return this.extend({ distinct });
+  }
+
+  /**
+   * Add WHERE conditions — raw SQL strings, structured conditions and/or groups (AND-joined
+   * with any existing conditions)
+   */
+  where(...entries: WhereEntry[]): QueryBuilder<F, B> {
+    return this.extend({ where: [...(this.config.where ?? []), ...entries] });
+  }
+
+  /** Add a `column IN (...)` condition */
+  whereIn(column: string, values: WhereScalar[]): QueryBuilder<F, B> {
+    return this.extend({ whereIn: { ...this.config.whereIn, [column]: values } });
+  }
+
+  /** Add a `column NOT IN (...)` condition */
+  whereNotIn(column: string, values: WhereScalar[]): QueryBuilder<F, B> {
+    return this.extend({ whereNotIn: { ...this.config.whereNotIn, [column]: values } });
+  }
+
+  /** Add a JOIN from a full {@link JoinConfig} */
+  join(join: JoinConfig): QueryBuilder<F, B> {
+    return this.extend({ joins: [...(this.config.joins ?? []), join] });
+  }
+
+  /** Add an INNER JOIN */
+  innerJoin(table: string, on: string | JoinOnConfig, alias?: string): QueryBuilder<F, B> {
+    return this.join(this.joinConfig('INNER', table, on, alias));
+  }
+
+  /** Add a LEFT JOIN */
+  leftJoin(table: string, on: string | JoinOnConfig, alias?: string): QueryBuilder<F, B> {
+    return this.join(this.joinConfig('LEFT', table, on, alias));
+  }
+
+  /** Add a RIGHT JOIN */
+  rightJoin(table: string, on: string | JoinOnConfig, alias?: string): QueryBuilder<F, B> {
+    return this.join(this.joinConfig('RIGHT', table, on, alias));
+  }
+
+  /** Add a CROSS JOIN */
+  crossJoin(table: string, alias?: string): QueryBuilder<F, B> {
+    return this.join(alias ? { type: 'CROSS', table, alias } : { type: 'CROSS', table });
+  }
+
+  /** Add GROUP BY columns */
+  groupBy(...columns: string[]): QueryBuilder<F, B> {
+    const existing = this.config.groupBy;
+    const current = existing === undefined ? [] : Array.isArray(existing) ? existing : [existing];
+    return this.extend({ groupBy: [...current, ...columns] });
+  }
+
+  /** Add HAVING conditions (AND-joined with any existing conditions) */
+  having(...entries: HavingEntry[]): QueryBuilder<F, B> {
+    return this.extend({ having: [...(this.config.having ?? []), ...entries] });
+  }
+
+  /**
+   * Add an ORDER BY column (after any existing ones); aliases from `select` are resolved
+   * @param column Column name or field alias
+   * @param direction Sort direction
+   */
+  orderBy(column: string, direction: 'ASC' | 'DESC' = 'ASC'): QueryBuilder<F, B> {
+    const existing = this.config.orderBy;
+    const current =
+      existing === undefined
+        ? []
+        : (Array.isArray(existing) ? existing : [existing]).map((item) =>
+            typeof item === 'string'
+              ? { column: item, direction: this.config.orderDirection ?? 'ASC' }
+              : item
+          );
+    return this.extend({ orderBy: [...current, { column, direction }] });
+  }
+
+  /** Set the maximum number of rows */
+  limit(limit: number): QueryBuilder<F, B> {
+    return this.extend({ limit });
+  }
+
+  /** Set the number of rows to skip */
+  offset(offset: number): QueryBuilder<F, B> {
+    return this.extend({ offset });
+  }
+
+  /** Add a common table expression */
+  with(
+    name: string,
+    definition: CteDefinition | QueryBuilder<FieldMap, BigNumbersMode>
+  ): QueryBuilder<F, B> {
+    const cte = definition instanceof QueryBuilder ? definition.toConfig() : definition;
+    return this.extend({ with: { ...this.config.with, [name]: cte } });
+  }
+
+  /** Combine with another query by UNION (or UNION ALL) */
+  union(query: QuerySource, all = false): QueryBuilder<F, B> {
+    return this.setOperation(all ? 'UNION ALL' : 'UNION', query);
+  }
+
+  /** Combine with another query by any {@link SetOperator} */
+  setOperation(type: SetOperator, query: QuerySource): QueryBuilder<F, B> {
+    const operation = { type, query: query instanceof QueryBuilder ? query.toConfig() : query };
+    return this.extend({ setOperations: [...(this.config.setOperations ?? []), operation] });
+  }
+
+  /** Add index hints for the FROM table */
+  indexHints(...hints: IndexHint[]): QueryBuilder<F, B> {
+    return this.extend({ indexHints: [...(this.config.indexHints ?? []), ...hints] });
+  }
+
+  /** Add optimizer hints */
+  optimizerHints(...hints: OptimizerHint[]): QueryBuilder<F, B> {
+    return this.extend({ optimizerHints: [...(this.config.optimizerHints ?? []), ...hints] });
+  }
+
+  /** Make this a locking read (requires a transaction when executed) */
+  lock(lock: LockConfig): QueryBuilder<F, B> {
+    return this.extend({ lock });
+  }
+
+  /** The built query configuration */
+  toConfig(): InferredQueryConfig<F> {
+    return { ...this.config } as InferredQueryConfig<F>;
+  }
+
+  /** Compile to SQL without executing (see {@link MySQLORM.toSQL}) */
+  toSQL(options?: ToSQLOptions): CompiledQuery {
+    if (!options?.count) this.assertFields('toSQL');
+    return this.orm.toSQL(this.config, options);
+  }
+
+  /** Fetch the rows and total count (see {@link MySQLORM.getData}) */
+  get<T = unknown>(
+    values: WhereScalar[] | undefined,
+    options: GetDataOptions & { cursor: CursorPagination }
+  ): Promise<CursorPage<ResolvedRow<T, F, B>>>;
+  get<T = unknown>(
+    values?: WhereScalar[],
+    options?: GetDataOptions
+  ): Promise<{ rows: ResolvedRow<T, F, B>[]; count: number; countStrategy: CountStrategy }>;
+  async get(values: WhereScalar[] = [], options?: GetDataOptions): Promise<unknown> {
+    this.assertFields('get');
+    return this.orm.getData(this.toConfig(), values, options);
+  }
+
+  /** Fetch the first matching row, or `null` (see {@link MySQLORM.getFirst}) */
+  async first<T = unknown>(
+    values: WhereScalar[] = [],
+    transaction?: Transaction
+  ): Promise<ResolvedRow<T, F, B> | null> {
+    this.assertFields('first');
+    return this.orm.getFirst<T, F>(this.toConfig(), values, transaction);
+  }
+
+  /** Stream the rows one at a time (see {@link MySQLORM.stream}) */
+  async *stream<T = unknown>(
+    values: WhereScalar[] = [],
+    options?: StreamOptions
+  ): AsyncGenerator<ResolvedRow<T, F, B>, void, undefined> {
+    this.assertFields('stream');
+    yield* this.orm.stream<T, F>(this.toConfig(), values, options);
+  }
+
+  /** Count the matching rows (see {@link MySQLORM.getCount}) */
+  count(values: WhereScalar[] = [], transaction?: Transaction): Promise<number> {
+    return this.orm.getCount(this.config, values, transaction);
+  }
+
+  /** EXPLAIN the query (see {@link MySQLORM.explain}) */
+  async explain(options?: ExplainOptions): Promise<ExplainResult> {
+    if (!options?.count) this.assertFields('explain');
+    return this.orm.explain(this.config, options);
+  }
+
+  /** Reject reading rows before any field is selected, which would compile to `SELECT  FROM` */
+  private assertFields(method: string): void {
+    if (Object.keys(this.config.fields).length === 0) {
+      throw new Error(`QueryBuilder.${method}() requires at least one field; call .select() first`);
+    }
+  }
+
+  /** A new builder over this one's configuration with `patch` applied */
+  private extend<G extends FieldMap = F>(patch: Partial<QueryConfig>): QueryBuilder<G, B> {
+    return new QueryBuilder<G, B>(this.orm, { ...this.config, ...patch });
+  }
+
+  private joinConfig(
+    type: JoinConfig['type'],
+    table: string,
+    on: string | JoinOnConfig,
+    alias: string | undefined
+  ): JoinConfig {
+    return alias ? { type, table, alias, on } : { type, table, on };
+  }
+}
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { colors } from './colors';
+import type { BindValue } from './type-converters';
 
 /**
  * Log level enumeration
@@ -14,8 +15,10 @@ export type QueryLogEntry = {
   timestamp: string;
   level: LogLevel;
   query: string;
-  values?: Array<string | number | boolean | null>;
+  values?: BindValue[];
   duration?: number;
+  /** Number of rows returned (reported for streamed queries) */
+  rows?: number;
   error?: string;
   stackTrace?: string;
 };
@@ -143,10 +146,14 @@ export class QueryLogger {
       parts.push(`[${entry.duration}ms]`);
     }
 
+    if (entry.rows !== undefined) {
+      parts.push(`[${entry.rows} rows]`);
+    }
+
     parts.push(entry.query);
 
     if (this.config.logValues && entry.values && entry.values.length > 0) {
-      parts.push(`| Values: ${JSON.stringify(entry.values)}`);
+      parts.push(`| Values: ${this.stringifyValues(entry.values)}`);
     } else if (entry.values && entry.values.length > 0) {
       parts.push(`| Values: [${entry.values.length} parameters redacted]`);
     }
@@ -162,6 +169,18 @@ export class QueryLogger {
     return parts.join(' ');
   }
 
+  /**
+   * Serialise bound values for a log line; `bigint` values (not JSON-serialisable) are
+   * written as their digits
+   * @param values Parameter values
+   * @returns JSON array text
+   */
+  private stringifyValues(values: BindValue[]): string {
+    return JSON.stringify(values, (_key, value: unknown) =>
+      typeof value === 'bigint' ? value.toString() : value
+    );
+  }
+
   /**
    * Write log entry to file
    * @param entry Log entry to write
@@ -196,15 +215,16 @@ export class QueryLogger {
     if (entry.level === 'warn') levelColor = colors.yellow;
 
     const level = levelColor(`[${entry.level.toUpperCase()}]`);
+    const rows = entry.rows !== undefined ? colors.gray(`[${entry.rows} rows] `) : '';
     const query = colors.cyan(entry.query);
     const values =
       this.config.logValues && entry.values
-        ? colors.gray(`| Values: ${JSON.stringify(entry.values)}`)
+        ? colors.gray(`| Values: ${this.stringifyValues(entry.values)}`)
         : entry.values
           ? colors.gray(`| Values: [${entry.values.length} parameters redacted]`)
           : '';
 
-    this.out.log(`${timestamp} ${level} ${duration} ${query} ${values}`);
+    this.out.log(`${timestamp} ${level} ${duration} ${rows}${query} ${values}`);
 
     if (entry.error) {
       this.out.error(colors.red(`Error: ${entry.error}`));
@@ -238,12 +258,9 @@ export class QueryLogger {
    * @param query SQL query string
    * @param values Parameter values
    * @param duration Execution duration in milliseconds
+   * @param rows Number of rows returned
    */
-  public logQuery(
-    query: string,
-    values?: Array<string | number | boolean | null>,
-    duration?: number
-  ): void {
+  public logQuery(query: string, values?: BindValue[], duration?: number, rows?: number): void {
     const level: LogLevel = duration && duration > this.config.slowQueryThreshold ? 'warn' : 'info';
 
     const logEntry: Omit<QueryLogEntry, 'timestamp'> = {
@@ -259,6 +276,10 @@ export class QueryLogger {
       logEntry.duration = duration;
     }
 
+    if (rows !== undefined) {
+      logEntry.rows = rows;
+    }
+
     this.log(logEntry);
   }
 
@@ -268,11 +289,7 @@ export class QueryLogger {
    * @param error Error that occurred
    * @param values Parameter values used
    */
-  public logError(
-    query: string,
-    error: Error,
-    values?: Array<string | number | boolean | null>
-  ): void {
+  public logError(query: string, error: Error, values?: BindValue[]): void {
     const logEntry: Omit<QueryLogEntry, 'timestamp'> = {
       level: 'error',
       query,
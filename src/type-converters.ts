@@ -0,0 +1,112 @@
+import type { TypeCastField, TypeCastNext } from 'mysql2';
+
+/**
+ * Pluggable conversion of column values between MySQL and JavaScript.
+ *
+ * Read converters run inside mysql2's `typeCast` hook, keyed by MySQL field type (e.g.
+ * `NEWDECIMAL`, `LONGLONG`, `JSON`) or by result column name. Write serializers run on the
+ * values passed to `insertData`, `batchInsertData` and `updateData`, keyed by column name.
+ */
+
+/** A result column as passed to a read converter (mysql2's typeCast field). */
+export type ResultField = TypeCastField;
+
+/** MySQL field type names reported for result columns, e.g. `'LONGLONG'` or `'NEWDECIMAL'`. */
+export type MySQLFieldType = ResultField['type'];
+
+/** A value that can be bound as a query parameter. */
+export type BindValue = string | number | bigint | boolean | Date | null;
+
+/**
+ * Converts one kind of column value.
+ *
+ * `read` receives the field and mysql2's default conversion as `next`. It must read the raw
+ * value through exactly one of `field.string()`, `field.buffer()`, `field.geometry()` or
+ * `next()`, since each consumes the value. `write` serializes a value written to a column.
+ */
+export type TypeConverter<V = unknown> = {
+  read?: (field: ResultField, next: TypeCastNext) => V;
+  write?(value: V): BindValue;
+};
+
+/**
+ * The `typeConversion` option of {@link MySQLORMConfig}. Column converters take precedence
+ * over type converters, which take precedence over the TINYINT(1) boolean coercion.
+ */
+export type TypeConversionConfig = {
+  /** Read converters by MySQL field type */
+  types?: { [T in MySQLFieldType]?: TypeConverter };
+  /**
+   * Converters by column: the result column name (the `fields` alias) or `table.column`
+   * for reads, and the written column or `table.column` for writes. A `table.column` key
+   * names the underlying table and column, so it applies whatever alias the column is
+   * selected under
+   */
+  columns?: { [column: string]: TypeConverter };
+  /** Read `TINYINT(1)` columns as booleans (default `true`) */
+  tinyIntAsBoolean?: boolean;
+};
+
+/**
+ * Built-in converters. Register them by type or by column:
+ *
+ * @example
+ * new MySQLORM({
+ *   ...connection,
+ *   typeConversion: {
+ *     types: { LONGLONG: converters.bigint, NEWDECIMAL: converters.decimalString },
+ *     columns: { roles: converters.set, flags: converters.json },
+ *   },
+ * });
+ */
+export const converters = {
+  /** BIGINT as `bigint`, without losing precision; `bigint` values are written as strings */
+  bigint: {
+    read: (field) => {
+      const text = field.string();
+      return text === null ? null : BigInt(text);
+    },
+    write: (value) => (value === null ? null : value.toString()),
+  } satisfies TypeConverter<bigint | null>,
+
+  /** DECIMAL as an exact string (never a lossy `number`) */
+  decimalString: {
+    read: (field) => field.string(),
+    write: (value) => value,
+  } satisfies TypeConverter<string | null>,
+
+  /** JSON text parsed to a value on read and stringified on write (for JSON or text columns) */
+  json: {
+    read: (field) => {
+      const text = field.string('utf8');
+      return text === null ? null : JSON.parse(text);
+    },
+    write: (value) => (value === null ? null : JSON.stringify(value)),
+  } satisfies TypeConverter<unknown>,
+
+  /**
+   * SET as `string[]`. MySQL reports SET columns with a string field type, so register this
+   * converter by column.
+   */
+  set: {
+    read: (field) => {
+      const text = field.string();
+      return text === null ? null : text === '' ? [] : text.split(',');
+    },
+    write: (value) => (value === null ? null : value.join(',')),
+  } satisfies TypeConverter<string[] | null>,
+
+  /** `BIT(1)` as a boolean; wider BIT columns keep the default `Buffer` */
+  bitBoolean: {
+    read: (field, next) => {
+      if (field.length !== 1) return next();
+      const buffer = field.buffer();
+      return buffer === null ? null : buffer[0] === 1;
+    },
+    write: (value) => {
+      if (typeof value === 'boolean') return Number(value);
+      if (value === null || typeof value === 'number') return value;
+      throw new Error('bitBoolean: value must be a boolean, a number or null');
+    },
+  } satisfies TypeConverter<unknown>,
+};
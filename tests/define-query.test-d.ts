@@ -0,0 +1,86 @@
+// Type-level tests for defineQuery, checked by `npm run typecheck` (not run by vitest):
+// each `@ts-expect-error` line must be a compile error.
+import { describe, it, expectTypeOf } from 'vitest';
+import { type MySQLORM, col, defineQuery } from '../src/mysql-orm';
+
+type UserRow = {
+  user_id: number;
+  full_name: string;
+  status: 'active' | 'banned';
+  created_at: string;
+};
+
+declare const orm: MySQLORM;
+const users = defineQuery<UserRow>();
+const base = { table: 'users', idField: 'user_id' };
+
+describe('defineQuery', () => {
+  it('infers row types from a checked config', () => {
+    const config = users({
+      ...base,
+      fields: { id: col<number>('user_id'), name: 'full_name', orders: 'COUNT(o.id)' },
+      where: [{ column: 'status', op: '=', value: 'banned' }],
+      whereIn: { id: [1, 2] },
+      orderBy: [{ column: 'created_at', direction: 'DESC' }],
+    });
+
+    expectTypeOf(orm.getFirst(config)).resolves.toEqualTypeOf<{
+      id: number;
+      name: unknown;
+      orders: unknown;
+    } | null>();
+  });
+
+  it('rejects misspelled columns', () => {
+    users({
+      ...base,
+      // @ts-expect-error misspelled schema column in fields
+      fields: { name: 'ful_name' },
+    });
+    users({
+      ...base,
+      fields: { id: 'user_id' },
+      // @ts-expect-error misspelled column in where
+      where: [{ column: 'stauts', op: '=', value: 'active' }],
+    });
+    users({
+      ...base,
+      fields: { id: 'user_id' },
+      // @ts-expect-error misspelled column in whereIn
+      whereIn: { user_di: [1] },
+    });
+    users({
+      ...base,
+      fields: { id: 'user_id' },
+      // @ts-expect-error misspelled column in orderBy
+      orderBy: 'craeted_at',
+    });
+    defineQuery()({
+      ...base,
+      fields: { id: 'user_id' },
+      // @ts-expect-error without a schema, only selected aliases can be named
+      orderBy: 'user_id',
+    });
+  });
+
+  it('rejects values of the wrong type', () => {
+    users({
+      ...base,
+      fields: { id: 'user_id' },
+      // @ts-expect-error value outside the column's union
+      where: [{ column: 'status', op: '=', value: 'deleted' }],
+    });
+    users({
+      ...base,
+      fields: { id: col<number>('user_id') },
+      // @ts-expect-error string values for a number column
+      whereIn: { id: ['1'] },
+    });
+    users({
+      ...base,
+      fields: { id: 'user_id' },
+      // @ts-expect-error BETWEEN takes a [low, high] pair
+      where: [{ column: 'created_at', op: 'BETWEEN', value: '2024-01-01' }],
+    });
+  });
+});
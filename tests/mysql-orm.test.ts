@@ -363,6 +363,24 @@ describe('MySQL ORM', () => {
         'user@example.com',
       ]);
     });
+
+    it('writes objects and arrays without a converter as JSON text', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+
+      vi.mocked(pool.query).mockResolvedValueOnce([{ insertId: 125, affectedRows: 1 }, []] as any);
+
+      await mysqlOrm.insertData('users', {
+        userName: 'User',
+        settings: { theme: 'dark', tags: ['a', 'b'] },
+        roles: ['admin'],
+      });
+
+      expect(pool.query).toHaveBeenCalledWith(
+        'INSERT INTO `users` (`userName`, `settings`, `roles`) VALUES (?, ?, ?)',
+        ['User', '{"theme":"dark","tags":["a","b"]}', '["admin"]']
+      );
+    });
   });
 
   describe('updateData', () => {
@@ -2428,4 +2446,2637 @@ describe('MySQL ORM', () => {
       expect(values).toEqual([7]);
     });
   });
+
+  describe('where groups', () => {
+    const baseConfig: QueryConfig = {
+      table: 'users',
+      idField: 'userId',
+      fields: { id: 'userId', status: 'accountStatus', role: 'userRole', deleted: 'isDeleted' },
+    };
+
+    it('renders OR groups in parentheses with aliases resolved', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        ...baseConfig,
+        where: [
+          {
+            or: [
+              { column: 'status', op: '=', value: 'active' },
+              { column: 'role', op: '=', value: 'admin' },
+            ],
+          },
+          { column: 'deleted', op: '=', value: false },
+        ],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain('WHERE (`accountStatus` = ? OR `userRole` = ?) AND `isDeleted` = ?');
+      expect(values).toEqual(['active', 'admin', false]);
+    });
+
+    it('supports nested groups and NOT, keeping value order', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        ...baseConfig,
+        where: [
+          {
+            or: [
+              {
+                and: [
+                  { column: 'status', op: '=', value: 'active' },
+                  { column: 'id', op: 'IN', value: [1, 2] },
+                ],
+              },
+              { not: { column: 'role', op: 'IS NULL' } },
+            ],
+          },
+        ],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'WHERE ((`accountStatus` = ? AND `userId` IN (?, ?)) OR NOT (`userRole` IS NULL))'
+      );
+      expect(values).toEqual(['active', 1, 2]);
+    });
+
+    it('parenthesises and validates raw strings inside groups', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({ ...baseConfig, where: [{ or: ['status = ?', 'role = ?'] }] }, [
+        'active',
+        'admin',
+      ]);
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain('WHERE ((accountStatus = ?) OR (userRole = ?))');
+
+      await expect(
+        mysqlOrm.getData({ ...baseConfig, where: [{ not: '1 = 1; DROP TABLE users' }] })
+      ).rejects.toThrow('Invalid WHERE clause');
+    });
+
+    it('handles empty groups safely', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({ ...baseConfig, where: [{ or: [] }, { and: [] }] });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain('WHERE 1 = 0 AND 1 = 1');
+      expect(values).toEqual([]);
+    });
+  });
+
+  describe('structured having conditions', () => {
+    it('references aggregate aliases and binds values after WHERE values', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        table: 'orders',
+        idField: 'order_id',
+        fields: { userId: 'user_id', orderCount: 'COUNT(order_id)' },
+        where: [{ column: 'status', op: '=', value: 'paid' }],
+        whereIn: { userId: [1, 2] },
+        groupBy: 'user_id',
+        having: [
+          { column: 'orderCount', op: '>', value: 5 },
+          {
+            or: [
+              { column: 'orderCount', op: '<', value: 100 },
+              { column: 'total', op: 'IS NULL' },
+            ],
+          },
+        ],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain('HAVING `orderCount` > ? AND (`orderCount` < ? OR `total` IS NULL)');
+      expect(values).toEqual(['paid', 1, 2, 5, 100]);
+    });
+
+    it('keeps HAVING values in the grouped count query', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        table: 'orders',
+        idField: 'order_id',
+        fields: { userId: 'user_id', orderCount: 'COUNT(order_id)' },
+        groupBy: 'user_id',
+        having: ['COUNT(order_id) >= 1', { column: 'orderCount', op: '>', value: 5 }],
+      });
+
+      const [countQuery, countValues] = vi.mocked(pool.query).mock.calls[1];
+      expect(countQuery).toContain('HAVING COUNT(order_id) >= 1 AND `orderCount` > ?');
+      expect(countValues).toEqual([5]);
+    });
+
+    it('still validates raw HAVING strings inside groups', async () => {
+      await expect(
+        mysqlOrm.getData({
+          table: 'orders',
+          idField: 'order_id',
+          fields: { id: 'order_id' },
+          groupBy: 'user_id',
+          having: [{ or: ['COUNT(*) > 1; DROP TABLE orders'] }],
+        })
+      ).rejects.toThrow('Invalid HAVING clause');
+    });
+  });
+
+  describe('cursor pagination', () => {
+    const baseConfig: QueryConfig = {
+      table: 'posts',
+      idField: 'post_id',
+      fields: { id: 'post_id', createdAt: 'created_at', title: 'post_title' },
+      orderBy: [{ column: 'createdAt', direction: 'DESC' }],
+      limit: 2,
+    };
+
+    it('fetches limit + 1 rows, appends the idField tiebreaker and returns a nextCursor', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([
+          [
+            { id: 3, createdAt: '2024-03-01', title: 'c' },
+            { id: 2, createdAt: '2024-02-01', title: 'b' },
+            { id: 1, createdAt: '2024-01-01', title: 'a' },
+          ],
+          [],
+        ] as any)
+        .mockResolvedValueOnce([[{ count: 3 }], []] as any);
+
+      const page = await mysqlOrm.getData(baseConfig, [], { cursor: {} });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain('ORDER BY `created_at` DESC, `post_id` ASC LIMIT 3');
+      expect(query).not.toContain('WHERE');
+      expect(values).toEqual([]);
+      expect(page.rows.map((r) => r.id)).toEqual([3, 2]);
+      expect(page.count).toBe(3);
+      expect(page.prevCursor).toBeNull();
+      expect(page.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('derives a mixed-direction seek predicate from an "after" cursor', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const cursor = Buffer.from(JSON.stringify(['2024-03-01', 3])).toString('base64url');
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ id: 2, createdAt: '2024-02-01', title: 'b' }], []] as any)
+        .mockResolvedValueOnce([[{ count: 3 }], []] as any);
+
+      const page = await mysqlOrm.getData(
+        { ...baseConfig, where: [{ column: 'title', op: '!=', value: 'x' }] },
+        [],
+        { cursor: { after: cursor } }
+      );
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'WHERE `post_title` != ? AND (((`created_at` < ? OR `created_at` IS NULL)) OR (`created_at` = ? AND `post_id` > ?))'
+      );
+      expect(query).toContain('ORDER BY `created_at` DESC, `post_id` ASC LIMIT 3');
+      expect(values).toEqual(['x', '2024-03-01', '2024-03-01', 3]);
+      expect(page.rows.map((r) => r.id)).toEqual([2]);
+      expect(page.prevCursor).toEqual(expect.any(String));
+      expect(page.nextCursor).toBeNull(); // no look-ahead row
+    });
+
+    it('reverses the ORDER BY for a "before" cursor and restores display order', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const cursor = Buffer.from(JSON.stringify(['2024-01-01', 1])).toString('base64url');
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([
+          [
+            { id: 2, createdAt: '2024-02-01', title: 'b' },
+            { id: 3, createdAt: '2024-03-01', title: 'c' },
+            { id: 4, createdAt: '2024-04-01', title: 'd' },
+          ],
+          [],
+        ] as any)
+        .mockResolvedValueOnce([[{ count: 4 }], []] as any);
+
+      const page = await mysqlOrm.getData(baseConfig, [], { cursor: { before: cursor } });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        '((`created_at` > ?) OR (`created_at` = ? AND (`post_id` < ? OR `post_id` IS NULL)))'
+      );
+      expect(query).toContain('ORDER BY `created_at` ASC, `post_id` DESC LIMIT 3');
+      expect(values).toEqual(['2024-01-01', '2024-01-01', 1]);
+      expect(page.rows.map((r) => r.id)).toEqual([3, 2]);
+      expect(page.nextCursor).toEqual(expect.any(String));
+      expect(page.prevCursor).toEqual(expect.any(String)); // look-ahead row means more before
+    });
+
+    it('compares NULL sort values with IS NULL / IS NOT NULL', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const cursor = Buffer.from(JSON.stringify([null, 3])).toString('base64url');
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[], []] as any);
+
+      // created_at DESC: NULLs sort last, so only NULL rows with a greater id follow
+      await mysqlOrm.getData(baseConfig, [], { cursor: { after: cursor }, count: 'none' });
+      // Paging backwards walks created_at ascending: every non-NULL value comes after NULL
+      await mysqlOrm.getData(baseConfig, [], { cursor: { before: cursor }, count: 'none' });
+
+      const [after, before] = vi.mocked(pool.query).mock.calls;
+      expect(after![0]).toContain('WHERE ((`created_at` IS NULL AND `post_id` > ?)) ORDER BY');
+      expect(after![1]).toEqual([3]);
+      expect(before![0]).toContain(
+        'WHERE ((`created_at` IS NOT NULL) OR (`created_at` IS NULL AND (`post_id` < ? OR `post_id` IS NULL))) ORDER BY'
+      );
+      expect(before![1]).toEqual([3]);
+    });
+
+    it('round-trips Date values through the cursor', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const createdAt = new Date('2024-05-01T10:00:00.000Z');
+      vi.mocked(pool.query).mockResolvedValueOnce([
+        [
+          { id: 5, createdAt, title: 'e' },
+          { id: 4, createdAt, title: 'd' },
+        ],
+        [],
+      ] as any);
+
+      const page = await mysqlOrm.getData({ ...baseConfig, limit: 1 }, [], {
+        cursor: {},
+        skipCount: true,
+      });
+      vi.mocked(pool.query).mockClear();
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+      await mysqlOrm.getData({ ...baseConfig, limit: 1 }, [], {
+        cursor: { after: page.nextCursor },
+        skipCount: true,
+      });
+
+      const [, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(values).toEqual([createdAt, createdAt, 5]);
+    });
+
+    it('rejects invalid cursors and unsupported configurations', async () => {
+      await expect(
+        mysqlOrm.getData(baseConfig, [], { cursor: { after: 'not-a-cursor' } })
+      ).rejects.toThrow('Invalid pagination cursor');
+      await expect(
+        mysqlOrm.getData({ ...baseConfig, limit: undefined } as QueryConfig, [], { cursor: {} })
+      ).rejects.toThrow('requires a limit');
+      await expect(
+        mysqlOrm.getData({ ...baseConfig, orderBy: 'updated_at' }, [], { cursor: {} })
+      ).rejects.toThrow('"updated_at" to be selected');
+    });
+  });
+
+  describe('common table expressions', () => {
+    it('prefixes a WITH clause and binds CTE values first', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        with: {
+          recent_orders: {
+            table: 'orders',
+            idField: 'order_id',
+            fields: { userId: 'user_id', total: 'order_total' },
+            where: [{ column: 'status', op: '=', value: 'paid' }],
+          },
+        },
+        table: 'recent_orders',
+        idField: 'userId',
+        fields: { userId: 'userId', total: 'total' },
+        where: [{ column: 'total', op: '>', value: 100 }],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toMatch(
+        /^WITH `recent_orders` AS \(SELECT `user_id` AS `userId`, `order_total` AS `total` FROM `orders` WHERE `status` = \?\) SELECT/
+      );
+      expect(query).toContain('FROM `recent_orders` WHERE `total` > ? ORDER BY `userId` ASC');
+      expect(values).toEqual(['paid', 100]);
+
+      const [countQuery, countValues] = vi.mocked(pool.query).mock.calls[1];
+      expect(countQuery).toMatch(/^WITH `recent_orders` AS \(.*\) SELECT COUNT\(\*\) AS count/);
+      expect(countValues).toEqual(['paid', 100]);
+    });
+
+    it('renders recursive CTEs with a column list and UNION ALL', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          with: {
+            tree: {
+              columns: ['id', 'parent_id', 'depth'],
+              anchor: {
+                table: 'categories',
+                idField: 'id',
+                fields: { id: 'id', parent_id: 'parent_id', depth: { raw: '0' } },
+                where: [{ column: 'id', op: '=', value: 7 }],
+              },
+              recursive: {
+                table: 'categories',
+                idField: 'id',
+                fields: {
+                  id: 'categories.id',
+                  parent_id: 'categories.parent_id',
+                  depth: { raw: 'tree.depth + 1' },
+                },
+                joins: [{ type: 'INNER', table: 'tree', on: 'categories.parent_id = tree.id' }],
+                where: [{ column: 'depth', op: '<', value: 5 }],
+              },
+            },
+          },
+          table: 'tree',
+          idField: 'id',
+          fields: { id: 'id', depth: 'depth' },
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain('WITH RECURSIVE `tree` (`id`, `parent_id`, `depth`) AS (');
+      expect(query).toContain('FROM `categories` WHERE `id` = ? UNION ALL SELECT');
+      expect(query).toContain('INNER JOIN `tree` ON categories.parent_id = tree.id');
+      // CTE members get no default ORDER BY; only the outer query does
+      expect(query.match(/ORDER BY/g)).toHaveLength(1);
+      expect(values).toEqual([7, 5]);
+    });
+
+    it('binds CTE values before the values for raw WHERE placeholders', () => {
+      const config: QueryConfig = {
+        with: {
+          active: {
+            table: 'users',
+            idField: 'id',
+            fields: { id: 'id' },
+            where: [{ column: 'status', op: '=', value: 'active' }],
+          },
+        },
+        table: 'active',
+        idField: 'id',
+        fields: { id: 'id' },
+        where: ['id > ?', { column: 'id', op: '<', value: 100 }],
+      };
+
+      const compiled = mysqlOrm.compile(config, [10]);
+      expect(compiled.sql).toBe(
+        'WITH `active` AS (SELECT `id` AS `id` FROM `users` WHERE `status` = ?) SELECT `id` AS `id` FROM `active` WHERE id > ? AND `id` < ? ORDER BY `id` ASC'
+      );
+      expect(compiled.values).toEqual(['active', 10, 100]);
+      expect(mysqlOrm.toSQL(config, { count: true, values: [10] }).values).toEqual([
+        'active',
+        10,
+        100,
+      ]);
+    });
+
+    it('rejects unsafe CTE names', async () => {
+      await expect(
+        mysqlOrm.getData({
+          with: { 'bad name': { table: 'orders', idField: 'id', fields: { id: 'id' } } },
+          table: 'orders',
+          idField: 'id',
+          fields: { id: 'id' },
+        })
+      ).rejects.toThrow('Invalid CTE name');
+    });
+  });
+
+  describe('window function fields', () => {
+    it('renders ranking functions with alias-resolved PARTITION BY and ORDER BY', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'orders',
+          idField: 'order_id',
+          fields: {
+            id: 'order_id',
+            userId: 'user_id',
+            total: 'order_total',
+            rank: {
+              window: 'ROW_NUMBER',
+              partitionBy: 'userId',
+              orderBy: [{ column: 'total', direction: 'DESC' }, 'id'],
+            },
+            bucket: { window: 'NTILE', args: [4], orderBy: 'total DESC' },
+          },
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'ROW_NUMBER() OVER (PARTITION BY `user_id` ORDER BY `order_total` DESC, `order_id` ASC) AS `rank`'
+      );
+      expect(query).toContain('NTILE(4) OVER (ORDER BY `order_total` DESC) AS `bucket`');
+    });
+
+    it('renders running totals with a frame clause and value functions with offsets', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'payments',
+          idField: 'id',
+          fields: {
+            amount: 'payment_amount',
+            runningTotal: {
+              window: 'SUM',
+              args: ['amount'],
+              orderBy: 'paid_at',
+              frame: { unit: 'ROWS', start: 'UNBOUNDED PRECEDING', end: 'CURRENT ROW' },
+            },
+            previous: { window: 'LAG', args: ['amount', 1], orderBy: 'paid_at' },
+            recent: {
+              window: 'AVG',
+              args: ['amount'],
+              orderBy: 'paid_at',
+              frame: { unit: 'ROWS', start: { preceding: 2 } },
+            },
+            total: { window: 'COUNT' },
+          },
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'SUM(`payment_amount`) OVER (ORDER BY `paid_at` ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS `runningTotal`'
+      );
+      expect(query).toContain(
+        'LAG(`payment_amount`, 1) OVER (ORDER BY `paid_at` ASC) AS `previous`'
+      );
+      expect(query).toContain(
+        'AVG(`payment_amount`) OVER (ORDER BY `paid_at` ASC ROWS 2 PRECEDING) AS `recent`'
+      );
+      expect(query).toContain('COUNT(*) OVER () AS `total`');
+    });
+
+    it('rejects unknown functions and non-integer arguments', async () => {
+      const base = { table: 'orders', idField: 'id' };
+      await expect(
+        mysqlOrm.getData({ ...base, fields: { x: { window: 'SLEEP' as any } } })
+      ).rejects.toThrow('Unsupported window function');
+      await expect(
+        mysqlOrm.getData({ ...base, fields: { x: { window: 'NTILE', args: [1.5] } } })
+      ).rejects.toThrow('must be a non-negative integer');
+      await expect(
+        mysqlOrm.getData({
+          ...base,
+          fields: {
+            x: { window: 'SUM', args: ['a'], frame: { unit: 'ROWS', start: '1; DROP' as any } },
+          },
+        })
+      ).rejects.toThrow('Invalid window frame bound');
+    });
+  });
+
+  describe('structured joins', () => {
+    it('supports table aliases and structured ON conditions for self-joins', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        table: 'employees',
+        idField: 'employees.id',
+        fields: { id: 'employees.id', managerName: 'manager.name' },
+        joins: [
+          {
+            type: 'LEFT',
+            table: 'employees',
+            alias: 'manager',
+            on: {
+              columns: [['manager.id', 'employees.manager_id']],
+              where: [{ column: 'manager.active', op: '=', value: true }],
+            },
+          },
+        ],
+        where: [{ column: 'id', op: '>', value: 10 }],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'LEFT JOIN `employees` AS `manager` ON `manager.id` = `employees.manager_id` AND `manager.active` = ?'
+      );
+      // ON values bind before WHERE values
+      expect(values).toEqual([true, 10]);
+
+      const [countQuery, countValues] = vi.mocked(pool.query).mock.calls[1];
+      expect(countQuery).toContain('LEFT JOIN `employees` AS `manager` ON');
+      expect(countValues).toEqual([true, 10]);
+    });
+
+    it('binds structured ON values before the values for raw WHERE placeholders', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'posts',
+          idField: 'posts.id',
+          fields: { id: 'posts.id' },
+          joins: [
+            {
+              type: 'INNER',
+              table: 'users',
+              on: {
+                columns: [['users.id', 'posts.user_id']],
+                where: [{ column: 'users.active', op: '=', value: 1 }],
+              },
+            },
+          ],
+          where: ['posts.views > ?', { column: 'posts.status', op: '=', value: 'published' }],
+        },
+        [100]
+      );
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'AND `users.active` = ? WHERE posts.views > ? AND `posts.status` = ?'
+      );
+      expect(values).toEqual([1, 100, 'published']);
+      expect(vi.mocked(pool.query).mock.calls[1][1]).toEqual([1, 100, 'published']);
+    });
+
+    it('emits CROSS and STRAIGHT_JOIN joins', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'sizes',
+          idField: 'id',
+          fields: { id: 'sizes.id' },
+          joins: [
+            { type: 'CROSS', table: 'colours' },
+            {
+              type: 'STRAIGHT_JOIN',
+              table: 'stock',
+              on: { columns: [['stock.size_id', 'sizes.id']] },
+            },
+          ],
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'FROM `sizes` CROSS JOIN `colours` STRAIGHT_JOIN `stock` ON `stock.size_id` = `sizes.id`'
+      );
+    });
+
+    it('rejects unknown qualifiers, unsafe aliases, missing ON and unknown join types', async () => {
+      const base = { table: 'orders', idField: 'id', fields: { id: 'id' } };
+      await expect(
+        mysqlOrm.getData({
+          ...base,
+          joins: [{ type: 'INNER', table: 'users', on: { columns: [['u.id', 'orders.user_id']] } }],
+        })
+      ).rejects.toThrow('Unknown table or alias "u"');
+      await expect(
+        mysqlOrm.getData({
+          ...base,
+          joins: [{ type: 'INNER', table: 'users', alias: 'u; DROP', on: 'users.id = orders.id' }],
+        })
+      ).rejects.toThrow('Invalid table alias');
+      await expect(
+        mysqlOrm.getData({ ...base, joins: [{ type: 'LEFT', table: 'users' }] })
+      ).rejects.toThrow('requires an ON condition');
+      await expect(
+        mysqlOrm.getData({
+          ...base,
+          joins: [{ type: 'FULL OUTER' as any, table: 'users', on: 'users.id = orders.id' }],
+        })
+      ).rejects.toThrow('Unsupported JOIN type');
+    });
+  });
+
+  describe('set operations', () => {
+    const active: QueryConfig = {
+      table: 'customers',
+      idField: 'customer_id',
+      fields: { id: 'customer_id', name: 'full_name' },
+      where: [{ column: 'status', op: '=', value: 'active' }],
+    };
+    const archived: QueryConfig = {
+      table: 'archived_customers',
+      idField: 'customer_id',
+      fields: { id: 'customer_id', name: 'full_name' },
+      where: [{ column: 'archived_at', op: '>', value: '2024-01-01' }],
+    };
+
+    it('wraps branches and applies ORDER BY / LIMIT to the combined result', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 12 }], []] as any);
+
+      const result = await mysqlOrm.getData({
+        ...active,
+        setOperations: [{ type: 'UNION ALL', query: archived }],
+        orderBy: 'full_name',
+        orderDirection: 'DESC',
+        limit: 10,
+        offset: 20,
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toBe(
+        '(SELECT `customer_id` AS `id`, `full_name` AS `name` FROM `customers` WHERE `status` = ?) ' +
+          'UNION ALL (SELECT `customer_id` AS `id`, `full_name` AS `name` FROM `archived_customers` WHERE `archived_at` > ?) ' +
+          'ORDER BY `name` DESC LIMIT 10 OFFSET 20'
+      );
+      expect(values).toEqual(['active', '2024-01-01']);
+
+      const [countQuery, countValues] = vi.mocked(pool.query).mock.calls[1];
+      expect(countQuery).toMatch(
+        /^SELECT COUNT\(\*\) AS count FROM \(\(SELECT .* UNION ALL \(SELECT .*\)\) AS __count_sub$/
+      );
+      expect(countQuery).not.toContain('LIMIT');
+      expect(countValues).toEqual(['active', '2024-01-01']);
+      expect(result.count).toBe(12);
+    });
+
+    it('treats union as plain UNION branches before setOperations', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          ...active,
+          union: [archived],
+          setOperations: [{ type: 'EXCEPT', query: { ...archived, table: 'blocked_customers' } }],
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toMatch(
+        /^\(SELECT .*\) UNION \(SELECT .*\) EXCEPT \(SELECT .*`blocked_customers`.*\)$/
+      );
+      expect(query).not.toContain('ORDER BY');
+    });
+
+    it('rejects raw placeholders in branches after the first', () => {
+      expect(() =>
+        mysqlOrm.toSQL(
+          {
+            ...active,
+            where: ['signup_at > ?'],
+            setOperations: [
+              { type: 'UNION', query: { ...archived, where: [{ or: ['archived_at > ?'] }] } },
+            ],
+          },
+          { values: ['2024-01-01', '2023-01-01'] }
+        )
+      ).toThrow(
+        'UNION branch on "archived_customers" has raw "?" placeholders; only the first branch'
+      );
+      expect(
+        mysqlOrm.toSQL(
+          { ...active, where: ['signup_at > ?'], union: [archived] },
+          { values: ['2024-01-01'] }
+        ).values
+      ).toEqual(['2024-01-01', '2024-01-01']);
+    });
+
+    it('moves MAX_EXECUTION_TIME to the outer SELECT of a compound count', () => {
+      const config: QueryConfig = {
+        ...active,
+        optimizerHints: [
+          { type: 'MAX_EXECUTION_TIME', ms: 500 },
+          { type: 'NO_INDEX_MERGE', table: 'customers' },
+        ],
+        union: [archived],
+      };
+
+      expect(mysqlOrm.toSQL(config, { count: true }).sql).toMatch(
+        /^SELECT \/\*\+ MAX_EXECUTION_TIME\(500\) \*\/ COUNT\(\*\) AS count FROM \(\(SELECT \/\*\+ NO_INDEX_MERGE\(`customers`\) \*\/ `customer_id`/
+      );
+      expect(mysqlOrm.toSQL(config).sql).toMatch(
+        /^\(SELECT \/\*\+ MAX_EXECUTION_TIME\(500\) NO_INDEX_MERGE\(`customers`\) \*\/ /
+      );
+    });
+
+    it('rejects unknown set operators and orderByVector', async () => {
+      await expect(
+        mysqlOrm.getData({
+          ...active,
+          setOperations: [{ type: 'UNION; DROP TABLE x' as any, query: archived }],
+        })
+      ).rejects.toThrow('Unsupported set operation');
+      await expect(
+        mysqlOrm.getData({
+          ...active,
+          union: [archived],
+          orderByVector: { column: 'embedding', queryVector: [0.1] },
+        })
+      ).rejects.toThrow('orderByVector cannot be combined');
+    });
+  });
+
+  describe('subquery conditions', () => {
+    const baseConfig: QueryConfig = {
+      table: 'users',
+      idField: 'user_id',
+      fields: { id: 'user_id', name: 'full_name' },
+    };
+
+    it('renders EXISTS / NOT EXISTS and propagates subquery values in order', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        ...baseConfig,
+        where: [
+          { column: 'name', op: 'LIKE', value: 'A%' },
+          {
+            exists: {
+              table: 'orders',
+              idField: 'order_id',
+              fields: { one: { raw: '1' } },
+              where: [
+                'orders.user_id = users.user_id',
+                { column: 'status', op: '=', value: 'paid' },
+              ],
+            },
+          },
+          {
+            notExists: {
+              table: 'bans',
+              idField: 'ban_id',
+              fields: { one: { raw: '1' } },
+              where: ['bans.user_id = users.user_id'],
+              whereIn: { reason: ['fraud', 'abuse'] },
+            },
+          },
+        ],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'WHERE `full_name` LIKE ? AND EXISTS (SELECT 1 AS `one` FROM `orders` WHERE orders.user_id = users.user_id AND `status` = ?)'
+      );
+      expect(query).toContain(
+        'AND NOT EXISTS (SELECT 1 AS `one` FROM `bans` WHERE bans.user_id = users.user_id AND `reason` IN (?, ?))'
+      );
+      expect(values).toEqual(['A%', 'paid', 'fraud', 'abuse']);
+    });
+
+    it('renders IN subqueries and quantified comparisons', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        ...baseConfig,
+        where: [
+          {
+            column: 'id',
+            op: 'NOT IN',
+            subquery: {
+              table: 'orders',
+              idField: 'order_id',
+              fields: { userId: 'user_id' },
+              where: [{ column: 'total', op: '>', value: 100 }],
+            },
+          },
+          {
+            or: [
+              {
+                column: 'id',
+                op: '>=',
+                quantifier: 'ALL',
+                subquery: { table: 'admins', idField: 'id', fields: { id: 'user_id' } },
+              },
+              { column: 'name', op: '=', value: 'root' },
+            ],
+          },
+        ],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        '`user_id` NOT IN (SELECT `user_id` AS `userId` FROM `orders` WHERE `total` > ?)'
+      );
+      expect(query).toContain(
+        '(`user_id` >= ALL (SELECT `user_id` AS `id` FROM `admins`) OR `full_name` = ?)'
+      );
+      expect(values).toEqual([100, 'root']);
+    });
+
+    it('rejects invalid operators and quantifiers', async () => {
+      const sub: QueryConfig = { table: 'orders', idField: 'id', fields: { id: 'user_id' } };
+      await expect(
+        mysqlOrm.getData({
+          ...baseConfig,
+          where: [{ column: 'id', op: 'LIKE' as any, subquery: sub }],
+        })
+      ).rejects.toThrow('Unsupported WHERE subquery operator');
+      await expect(
+        mysqlOrm.getData({
+          ...baseConfig,
+          where: [{ column: 'id', op: 'IN', quantifier: 'ANY', subquery: sub }],
+        })
+      ).rejects.toThrow('invalid quantifier');
+    });
+  });
+
+  describe('locking reads', () => {
+    const baseConfig: QueryConfig = {
+      table: 'inventory',
+      idField: 'sku',
+      fields: { sku: 'sku', stock: 'stock_level' },
+      where: [{ column: 'sku', op: '=', value: 'ABC-1' }],
+    };
+
+    it('emits FOR UPDATE with OF / SKIP LOCKED on the transaction connection', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ sku: 'ABC-1', stock: 3 }], []] as any)
+        .mockResolvedValueOnce([[{ count: 1 }], []] as any);
+
+      const transaction = mysqlOrm.createTransaction();
+      await transaction.begin();
+      await mysqlOrm.getData(
+        { ...baseConfig, lock: { mode: 'update', of: 'inventory', skipLocked: true }, limit: 5 },
+        [],
+        { transaction }
+      );
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toMatch(/LIMIT 5 FOR UPDATE OF `inventory` SKIP LOCKED$/);
+      expect(values).toEqual(['ABC-1']);
+
+      const [countQuery] = vi.mocked(pool.query).mock.calls[1];
+      expect(countQuery).not.toContain('FOR UPDATE');
+    });
+
+    it('emits FOR SHARE NOWAIT from getFirst within a transaction', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ sku: 'ABC-1', stock: 3 }], []] as any);
+
+      const transaction = mysqlOrm.createTransaction();
+      await transaction.begin();
+      const row = await mysqlOrm.getFirst(
+        { ...baseConfig, lock: { mode: 'share', nowait: true } },
+        [],
+        transaction
+      );
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toMatch(/LIMIT 1 FOR SHARE NOWAIT$/);
+      expect(row).toEqual({ sku: 'ABC-1', stock: 3 });
+    });
+
+    it('requires a transaction and rejects conflicting options', async () => {
+      await expect(mysqlOrm.getData({ ...baseConfig, lock: 'update' })).rejects.toThrow(
+        'getData: locking reads (lock) must run inside a transaction'
+      );
+      await expect(mysqlOrm.getFirst({ ...baseConfig, lock: 'share' })).rejects.toThrow(
+        'getFirst: locking reads (lock) must run inside a transaction'
+      );
+
+      const transaction = mysqlOrm.createTransaction();
+      await transaction.begin();
+      await expect(
+        mysqlOrm.getFirst(
+          { ...baseConfig, lock: { mode: 'update', nowait: true, skipLocked: true } },
+          [],
+          transaction
+        )
+      ).rejects.toThrow('both nowait and skipLocked');
+    });
+
+    it('checks OF names against the query tables, join aliases and CTEs', () => {
+      const joined: QueryConfig = {
+        ...baseConfig,
+        joins: [{ type: 'INNER', table: 'warehouses', alias: 'w', on: 'w.id = inventory.wh_id' }],
+      };
+
+      expect(
+        mysqlOrm.toSQL({ ...joined, lock: { mode: 'update', of: ['inventory', 'w'] } }).sql
+      ).toMatch(/FOR UPDATE OF `inventory`, `w`$/);
+      expect(() =>
+        mysqlOrm.toSQL({ ...joined, lock: { mode: 'update', of: 'invnetory' } })
+      ).toThrow('lock table "invnetory" is not a table, join alias or CTE of the query');
+      expect(() =>
+        mysqlOrm.toSQL({ ...joined, lock: { mode: 'update', of: 'inventory`; --' } })
+      ).toThrow('Invalid lock table');
+    });
+  });
+
+  describe('transaction-aware reads', () => {
+    it('runs the rows and count queries sequentially on the transaction connection', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const connection = await pool.getConnection();
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const results = [
+        [[{ id: 1 }], []],
+        [[{ count: 1 }], []],
+      ];
+      vi.mocked(connection.query).mockImplementation((async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return results.shift();
+      }) as any);
+
+      const result = await mysqlOrm.withTransaction((transaction) =>
+        mysqlOrm.getData({ table: 'users', idField: 'id', fields: { id: 'id' } }, [], {
+          transaction,
+        })
+      );
+
+      expect(maxInFlight).toBe(1);
+      expect(result).toEqual({
+        rows: [{ id: 1 }],
+        count: 1,
+        countStrategy: 'exact',
+      });
+      vi.mocked(connection.query).mockReset();
+    });
+
+    it('runs vectorSearch on the transaction connection', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ id: 1, distance: 0.1 }], []] as any);
+
+      const transaction = mysqlOrm.createTransaction();
+      await transaction.begin();
+      const rows = await mysqlOrm.vectorSearch(
+        { table: 'docs', vectorColumn: 'embedding', queryVector: [0.1, 0.2], k: 1 },
+        [],
+        transaction
+      );
+
+      expect(pool.getConnection).toHaveBeenCalled();
+      expect(rows).toEqual([{ id: 1, distance: 0.1 }]);
+    });
+
+    it('rejects reads on a transaction that has not begun', async () => {
+      const transaction = mysqlOrm.createTransaction();
+      await expect(
+        mysqlOrm.getFirst({ table: 'users', idField: 'id', fields: { id: 'id' } }, [], transaction)
+      ).rejects.toThrow('No active transaction');
+    });
+  });
+
+  describe('index and optimizer hints', () => {
+    it('emits index hints on the FROM table and joins', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'orders',
+          idField: 'orders.id',
+          fields: { id: 'orders.id', name: 'c.name' },
+          indexHints: [
+            { type: 'FORCE', indexes: ['idx_created_at'], for: 'ORDER BY' },
+            { type: 'IGNORE', indexes: ['PRIMARY'] },
+          ],
+          joins: [
+            {
+              type: 'INNER',
+              table: 'customers',
+              alias: 'c',
+              indexHints: [{ type: 'USE', indexes: [] }],
+              on: { columns: [['c.id', 'orders.customer_id']] },
+            },
+          ],
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toContain(
+        'FROM `orders` FORCE INDEX FOR ORDER BY (`idx_created_at`) IGNORE INDEX (`PRIMARY`) INNER JOIN `customers` AS `c` USE INDEX () ON'
+      );
+    });
+
+    it('emits typed optimizer hints after SELECT on row and count queries', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        table: 'orders',
+        idField: 'id',
+        fields: { id: 'id' },
+        distinct: true,
+        optimizerHints: [
+          { type: 'MAX_EXECUTION_TIME', ms: 2000 },
+          { type: 'JOIN_ORDER', tables: ['orders', 'customers'] },
+          { type: 'NO_RANGE_OPTIMIZATION', table: 'orders', indexes: ['idx_a', 'idx_b'] },
+          { type: 'BNL' },
+        ],
+      });
+
+      const hints =
+        '/*+ MAX_EXECUTION_TIME(2000) JOIN_ORDER(`orders`, `customers`) NO_RANGE_OPTIMIZATION(`orders` `idx_a`, `idx_b`) BNL() */';
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toContain(`SELECT ${hints} DISTINCT`);
+      expect(vi.mocked(pool.query).mock.calls[1][0]).toContain(`SELECT ${hints} COUNT(DISTINCT`);
+    });
+
+    it('hoists MAX_EXECUTION_TIME onto the grouped count wrapper', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await mysqlOrm.getData({
+        table: 'orders',
+        idField: 'status',
+        fields: { status: 'status' },
+        groupBy: 'status',
+        optimizerHints: [
+          { type: 'MAX_EXECUTION_TIME', ms: 500 },
+          { type: 'GROUP_INDEX', table: 'orders', indexes: ['idx_status'] },
+        ],
+      });
+
+      expect(vi.mocked(pool.query).mock.calls[1][0]).toBe(
+        'SELECT /*+ MAX_EXECUTION_TIME(500) */ COUNT(*) AS count FROM (SELECT /*+ GROUP_INDEX(`orders` `idx_status`) */ `status` AS `status` FROM `orders` GROUP BY `status` ORDER BY `status` ASC) AS __count_sub'
+      );
+    });
+
+    it('rejects unsafe or unsupported hints', async () => {
+      const base = { table: 'orders', idField: 'id', fields: { id: 'id' } };
+      await expect(
+        mysqlOrm.getData({ ...base, indexHints: [{ type: 'USE', indexes: ['x */ DROP'] }] })
+      ).rejects.toThrow('Invalid index name');
+      await expect(
+        mysqlOrm.getData({ ...base, indexHints: [{ type: 'FORCE', indexes: [] }] })
+      ).rejects.toThrow('FORCE INDEX requires at least one index name');
+      await expect(
+        mysqlOrm.getData({
+          ...base,
+          optimizerHints: [{ type: 'SET_VAR' as any, tables: [] }],
+        })
+      ).rejects.toThrow('Unsupported optimizer hint: SET_VAR');
+      await expect(
+        mysqlOrm.getData({ ...base, optimizerHints: [{ type: 'MAX_EXECUTION_TIME', ms: 1.5 }] })
+      ).rejects.toThrow('MAX_EXECUTION_TIME requires a non-negative integer ms value');
+      await expect(
+        mysqlOrm.getData({
+          ...base,
+          table: ['orders', 'customers'],
+          indexHints: [{ type: 'USE', indexes: ['idx'] }],
+        })
+      ).rejects.toThrow('indexHints require a single table');
+    });
+  });
+
+  describe('SQL compilation', () => {
+    it('compiles rows and count queries without executing them', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const config = {
+        table: 'users',
+        idField: 'id',
+        fields: { id: 'id', name: 'name' },
+        where: ['created_at > ?', { column: 'status', op: '=' as const, value: 'active' }],
+        whereIn: { role: ['admin', 'editor'] },
+        limit: 10,
+      };
+
+      expect(mysqlOrm.compile(config, ['2024-01-01'])).toEqual({
+        sql: 'SELECT `id` AS `id`, `name` AS `name` FROM `users` WHERE created_at > ? AND `status` = ? AND `role` IN (?, ?) ORDER BY `id` ASC LIMIT 10',
+        values: ['2024-01-01', 'active', 'admin', 'editor'],
+      });
+      expect(mysqlOrm.toSQL(config, { count: true, values: ['2024-01-01'] })).toEqual({
+        sql: 'SELECT COUNT(*) AS count FROM `users` WHERE created_at > ? AND `status` = ? AND `role` IN (?, ?) LIMIT 1',
+        values: ['2024-01-01', 'active', 'admin', 'editor'],
+      });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('splices user values in at the WHERE clause, after CTE, SELECT and JOIN values', () => {
+      const leeds = { type: 'Point' as const, coordinates: [-1.55, 53.8] as [number, number] };
+      const config: QueryConfig = {
+        with: {
+          open_shops: {
+            table: 'shops',
+            idField: 'id',
+            fields: { id: 'id', name: 'name', location: 'location', profile: 'profile' },
+            where: [{ column: 'status', op: '=', value: 'open' }],
+          },
+        },
+        table: 'open_shops',
+        idField: 'open_shops.id',
+        fields: {
+          id: 'open_shops.id',
+          score: { match: 'open_shops.name', against: 'coffee' },
+          city: { json: 'open_shops.profile', path: '$.city' },
+          meters: { column: 'open_shops.location', distanceFrom: leeds },
+        },
+        joins: [
+          {
+            type: 'INNER',
+            table: 'owners',
+            on: {
+              columns: [['owners.shop_id', 'open_shops.id']],
+              where: [{ column: 'owners.active', op: '=', value: 1 }],
+            },
+          },
+        ],
+        where: ['open_shops.rating > ?', { column: 'owners.country', op: '=', value: 'GB' }],
+      };
+
+      const { sql, values } = mysqlOrm.toSQL(config, { values: [4] });
+
+      expect(sql.match(/\?/g)).toHaveLength(values.length);
+      expect(values).toEqual(['open', 'coffee', '$.city', JSON.stringify(leeds), 1, 4, 'GB']);
+      // The COUNT query has no SELECT fields to bind
+      expect(mysqlOrm.toSQL(config, { count: true, values: [4] }).values).toEqual([
+        'open',
+        1,
+        4,
+        'GB',
+      ]);
+    });
+
+    it('compiles the SQL getData runs', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+      const config = {
+        table: 'users',
+        idField: 'id',
+        fields: { id: 'id' },
+        where: [{ column: 'id', op: '>' as const, value: 5 }],
+      };
+
+      await mysqlOrm.getData(config);
+
+      const compiled = mysqlOrm.compile(config);
+      const count = mysqlOrm.toSQL(config, { count: true });
+      expect(vi.mocked(pool.query).mock.calls[0]).toEqual([compiled.sql, compiled.values]);
+      expect(vi.mocked(pool.query).mock.calls[1]).toEqual([count.sql, count.values]);
+    });
+
+    it('compiles insert, batch insert, update and delete statements', () => {
+      expect(mysqlOrm.compileInsert('users', { name: 'Ann', age: 30 })).toEqual({
+        sql: 'INSERT INTO `users` (`name`, `age`) VALUES (?, ?)',
+        values: ['Ann', 30],
+      });
+      expect(
+        mysqlOrm.compileBatchInsert('users', [{ name: 'Ann', age: 30 }, { name: 'Bob' }])
+      ).toEqual({
+        sql: 'INSERT INTO `users` (`name`, `age`) VALUES (?, ?), (?, ?)',
+        values: ['Ann', 30, 'Bob', null],
+      });
+      expect(
+        mysqlOrm.compileUpdate({
+          table: 'users',
+          data: { name: 'Ann' },
+          where: ['id = ?'],
+          values: [1],
+        })
+      ).toEqual({ sql: 'UPDATE `users` SET `name` = ? WHERE id = ?', values: ['Ann', 1] });
+      expect(mysqlOrm.compileDelete('users', { id: 1 })).toEqual({
+        sql: 'DELETE FROM `users` WHERE `id` = ?',
+        values: [1],
+      });
+      expect(() => mysqlOrm.compileBatchInsert('users', [])).toThrow(
+        'compileBatchInsert requires at least one row'
+      );
+    });
+  });
+
+  describe('explain', () => {
+    const config = {
+      table: 'orders',
+      idField: 'orders.id',
+      fields: { id: 'orders.id', name: 'c.name' },
+      joins: [
+        { type: 'INNER' as const, table: 'customers', alias: 'c', on: 'c.id = orders.customer_id' },
+      ],
+      where: [{ column: 'orders.status', op: '=' as const, value: 'paid' }],
+    };
+
+    it('runs EXPLAIN FORMAT=JSON and summarises the plan', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const plan = {
+        query_block: {
+          select_id: 1,
+          cost_info: { query_cost: '125.40' },
+          ordering_operation: {
+            using_filesort: true,
+            nested_loop: [
+              {
+                table: {
+                  table_name: 'orders',
+                  access_type: 'ALL',
+                  possible_keys: ['idx_customer'],
+                  rows_examined_per_scan: 1000,
+                  filtered: '10.00',
+                },
+              },
+              {
+                table: {
+                  table_name: 'c',
+                  access_type: 'eq_ref',
+                  possible_keys: ['PRIMARY'],
+                  key: 'PRIMARY',
+                  rows_examined_per_scan: 1,
+                  filtered: '100.00',
+                },
+              },
+            ],
+          },
+        },
+      };
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ EXPLAIN: JSON.stringify(plan) }], []] as any);
+
+      const result = await mysqlOrm.explain(config);
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toMatch(/^EXPLAIN FORMAT=JSON SELECT /);
+      expect(values).toEqual(['paid']);
+      expect(result.format).toBe('json');
+      expect(result.cost).toBe(125.4);
+      expect(result.tables).toEqual([
+        {
+          table: 'orders',
+          accessType: 'ALL',
+          key: null,
+          possibleKeys: ['idx_customer'],
+          rowsExamined: 1000,
+          filtered: 10,
+        },
+        {
+          table: 'c',
+          accessType: 'eq_ref',
+          key: 'PRIMARY',
+          possibleKeys: ['PRIMARY'],
+          rowsExamined: 1,
+          filtered: 100,
+        },
+      ]);
+      expect(result.warnings).toEqual(['Full table scan on "orders"', 'Using filesort']);
+      expect(result.plan).toEqual(plan);
+    });
+
+    it('parses EXPLAIN ANALYZE tree output with actual row counts', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const tree = [
+        '-> Sort: orders.id  (cost=110.5 rows=100) (actual time=2.1..2.2 rows=40 loops=1)',
+        '    -> Nested loop inner join  (cost=100.25 rows=100) (actual time=0.2..1.9 rows=40 loops=1)',
+        "        -> Filter: (orders.`status` = 'paid')  (cost=65 rows=100) (actual time=0.1..1.2 rows=40 loops=1)",
+        '            -> Table scan on orders  (cost=65 rows=1000) (actual time=0.1..1.0 rows=1000 loops=1)',
+        '        -> Single-row index lookup on c using PRIMARY (id=orders.customer_id)  (cost=0.25 rows=1) (actual time=0.01..0.01 rows=1 loops=40)',
+      ].join('\n');
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ EXPLAIN: tree }], []] as any);
+
+      const result = await mysqlOrm.explain(config, { analyze: true });
+
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toMatch(/^EXPLAIN ANALYZE SELECT /);
+      expect(result.format).toBe('tree');
+      expect(result.cost).toBe(110.5);
+      expect(result.tables).toEqual([
+        {
+          table: 'orders',
+          accessType: 'ALL',
+          key: null,
+          possibleKeys: [],
+          rowsExamined: 1000,
+          filtered: null,
+        },
+        {
+          table: 'c',
+          accessType: 'eq_ref',
+          key: 'PRIMARY',
+          possibleKeys: [],
+          rowsExamined: 40,
+          filtered: null,
+        },
+      ]);
+      expect(result.warnings).toEqual(['Full table scan on "orders"', 'Using filesort']);
+      expect(result.plan).toBe(tree);
+    });
+
+    it('explains the count query and rejects ANALYZE with JSON', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([
+        [{ EXPLAIN: '-> Count rows in orders  (rows=1000)' }],
+        [],
+      ] as any);
+
+      const result = await mysqlOrm.explain(config, { format: 'tree', count: true });
+
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toMatch(
+        /^EXPLAIN FORMAT=TREE SELECT COUNT\(\*\) AS count FROM/
+      );
+      expect(result.tables).toEqual([]);
+      await expect(mysqlOrm.explain(config, { analyze: true, format: 'json' })).rejects.toThrow(
+        "EXPLAIN ANALYZE only supports format 'tree'"
+      );
+    });
+    it('reports a malformed plan as a failed explain', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ EXPLAIN: '{"query_block":' }], []] as any)
+        .mockResolvedValueOnce([[], []] as any);
+
+      await expect(mysqlOrm.explain(config)).rejects.toThrow(
+        'Failed to explain query: Database error occurred'
+      );
+      await expect(mysqlOrm.explain(config)).rejects.toThrow(
+        'Failed to explain query: Database error occurred'
+      );
+    });
+  });
+
+  describe('aggregate', () => {
+    it('builds escaped metrics, resolves groupBy aliases and converts numeric results', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([
+        [
+          { day: '2024-01-01', revenue: '150.50', avgTotal: '75.25', buyers: 2, firstSale: 10 },
+          { day: null, revenue: null, avgTotal: null, buyers: 0, firstSale: null },
+        ],
+        [],
+      ] as any);
+
+      const rows = await mysqlOrm.aggregate({
+        table: 'orders',
+        fields: { day: 'DATE(created_at)' },
+        where: [{ column: 'status', op: '=', value: 'paid' }],
+        groupBy: ['day'],
+        rollup: true,
+        metrics: {
+          revenue: { sum: 'total' },
+          avgTotal: { avg: 'total' },
+          buyers: { countDistinct: 'user_id' },
+          firstSale: { min: 'total' },
+        },
+        having: [{ column: 'buyers', op: '>', value: 1 }],
+      });
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toBe(
+        'SELECT DATE(created_at) AS `day`, SUM(`total`) AS `revenue`, AVG(`total`) AS `avgTotal`, COUNT(DISTINCT `user_id`) AS `buyers`, MIN(`total`) AS `firstSale` FROM `orders` WHERE `status` = ? GROUP BY `day` WITH ROLLUP HAVING `buyers` > ?'
+      );
+      expect(values).toEqual(['paid', 1]);
+      expect(rows).toEqual([
+        { day: '2024-01-01', revenue: 150.5, avgTotal: 75.25, buyers: 2, firstSale: 10 },
+        { day: null, revenue: null, avgTotal: null, buyers: 0, firstSale: null },
+      ]);
+    });
+
+    it('computes ungrouped totals without a default ORDER BY', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ orders: 3 }], []] as any);
+
+      const [totals] = await mysqlOrm.aggregate({
+        table: 'orders',
+        metrics: { orders: { count: '*' } },
+      });
+
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toBe(
+        'SELECT COUNT(*) AS `orders` FROM `orders`'
+      );
+      expect(totals).toEqual({ orders: 3 });
+    });
+
+    it('aggregates the expression of a { raw } field alias', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ revenue: '42.5' }], []] as any);
+
+      const [totals] = await mysqlOrm.aggregate({
+        table: 'orders',
+        fields: { total: { raw: 'price * quantity' } },
+        metrics: { revenue: { sum: 'total' } },
+      });
+
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toBe(
+        'SELECT SUM(price * quantity) AS `revenue` FROM `orders`'
+      );
+      expect(totals).toEqual({ revenue: 42.5 });
+    });
+
+    it('rejects metrics over window function fields', async () => {
+      await expect(
+        mysqlOrm.aggregate({
+          table: 'orders',
+          fields: { position: { window: 'ROW_NUMBER', orderBy: [{ column: 'id' }] } },
+          metrics: { top: { max: 'position' } },
+        })
+      ).rejects.toThrow(
+        'Aggregate metric "top" cannot aggregate the window function field "position"'
+      );
+      await expect(
+        mysqlOrm.aggregate({
+          table: 'orders',
+          fields: { city: { json: 'address', path: '$.city' } },
+          metrics: { cities: { countDistinct: 'city' } },
+        })
+      ).rejects.toThrow('Aggregate metric "cities" must target a column or a { raw } field');
+    });
+
+    it('rejects malformed metrics', async () => {
+      await expect(
+        mysqlOrm.aggregate({
+          table: 'orders',
+          metrics: { bad: { sum: 'total', avg: 'total' } as any },
+        })
+      ).rejects.toThrow('Aggregate metric "bad" must have exactly one of');
+      await expect(
+        mysqlOrm.aggregate({
+          table: 'orders',
+          metrics: { inherited: { constructor: 'total' } as any },
+        })
+      ).rejects.toThrow('Aggregate metric "inherited" must have exactly one of');
+      await expect(
+        mysqlOrm.aggregate({
+          table: 'orders',
+          groupBy: ['status'],
+          metrics: { status: { count: '*' } },
+        })
+      ).rejects.toThrow('Aggregate metric "status" clashes with a groupBy column');
+    });
+
+    it('resolves groupBy aliases to their columns in getData', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'orders',
+          idField: 'order_status',
+          fields: { status: 'order_status', orders: 'COUNT(*)' },
+          groupBy: 'status',
+        },
+        [],
+        { skipCount: true }
+      );
+
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toContain('GROUP BY `order_status`');
+    });
+  });
+
+  describe('full-text search', () => {
+    it('filters, scores and orders by MATCH ... AGAINST with bound search strings', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlOrm.getData(
+        {
+          table: 'articles',
+          idField: 'id',
+          fields: {
+            id: 'id',
+            headline: 'title',
+            score: { match: ['headline', 'body'], against: 'mysql tuning' },
+          },
+          where: [
+            { column: 'published', op: '=', value: true },
+            { match: ['headline', 'body'], against: '+mysql -oracle', mode: 'boolean' },
+          ],
+          orderBy: [{ column: 'score', direction: 'DESC' }],
+        },
+        [],
+        { skipCount: true }
+      );
+
+      const [query, values] = vi.mocked(pool.query).mock.calls[0];
+      expect(query).toBe(
+        'SELECT `id` AS `id`, `title` AS `headline`, MATCH (`title`, `body`) AGAINST (? IN NATURAL LANGUAGE MODE) AS `score` FROM `articles` WHERE `published` = ? AND MATCH (`title`, `body`) AGAINST (? IN BOOLEAN MODE) ORDER BY `score` DESC'
+      );
+      expect(values).toEqual(['mysql tuning', true, '+mysql -oracle']);
+    });
+
+    it('binds relevance search strings before the values for raw WHERE placeholders', () => {
+      const compiled = mysqlOrm.compile(
+        {
+          table: 'articles',
+          idField: 'id',
+          fields: { id: 'id', score: { match: 'body', against: 'mysql' } },
+          where: ['author_id = ?'],
+        },
+        [7]
+      );
+
+      expect(compiled.sql).toBe(
+        'SELECT `id` AS `id`, MATCH (`body`) AGAINST (? IN NATURAL LANGUAGE MODE) AS `score` FROM `articles` WHERE author_id = ? ORDER BY `id` ASC'
+      );
+      expect(compiled.values).toEqual(['mysql', 7]);
+    });
+
+    it('supports query expansion and rejects unknown modes', async () => {
+      expect(
+        mysqlOrm.compile({
+          table: 'articles',
+          idField: 'id',
+          fields: { id: 'id' },
+          where: [{ match: 'body', against: 'database', mode: 'expansion' }],
+        }).sql
+      ).toContain('MATCH (`body`) AGAINST (? WITH QUERY EXPANSION)');
+      expect(() =>
+        mysqlOrm.compile({
+          table: 'articles',
+          idField: 'id',
+          fields: { id: 'id' },
+          where: [{ match: 'body', against: 'x', mode: 'fuzzy' as any }],
+        })
+      ).toThrow('Unsupported full-text search mode: fuzzy');
+    });
+
+    it('builds safe boolean-mode search strings from user input', async () => {
+      const { MySQLORM } = await import('../src/mysql-orm');
+      expect(MySQLORM.toBooleanSearch('"query cache" tuning')).toBe('+"query cache" +tuning');
+      expect(MySQLORM.toBooleanSearch('my-sql (tips)* ~@2 "unclosed', { prefix: true })).toBe(
+        '+my* +sql* +tips* +2* +unclosed*'
+      );
+      expect(MySQLORM.toBooleanSearch('fast databases', { requireAll: false })).toBe(
+        'fast databases'
+      );
+      expect(MySQLORM.toBooleanSearch(' +-*" ')).toBe('');
+    });
+  });
+
+  describe('JSON path conditions and fields', () => {
+    it('extracts JSON paths as fields with bound paths', async () => {
+      const { col } = await import('../src/mysql-orm');
+      const compiled = mysqlOrm.compile({
+        table: 'users',
+        idField: 'id',
+        fields: {
+          id: 'id',
+          city: col<string>({ json: 'profile', path: '$.address.city', unquote: true }),
+          tags: { json: 'profile', path: '$.tags[0]' },
+        },
+        where: [{ json: 'profile', path: '$.address.city', op: '=', value: 'Leeds' }],
+      });
+
+      expect(compiled).toEqual({
+        sql: 'SELECT `id` AS `id`, JSON_UNQUOTE(JSON_EXTRACT(`profile`, ?)) AS `city`, JSON_EXTRACT(`profile`, ?) AS `tags` FROM `users` WHERE JSON_UNQUOTE(JSON_EXTRACT(`profile`, ?)) = ? ORDER BY `id` ASC',
+        values: ['$.address.city', '$.tags[0]', '$.address.city', 'Leeds'],
+      });
+    });
+
+    it('binds field paths before the values for raw WHERE placeholders', () => {
+      const compiled = mysqlOrm.compile(
+        {
+          table: 'users',
+          idField: 'id',
+          fields: { id: 'id', city: { json: 'profile', path: '$.address.city' } },
+          where: ['id > ?', { json: 'profile', path: '$.active', op: '=', value: true }],
+        },
+        [10]
+      );
+
+      expect(compiled.sql).toBe(
+        'SELECT `id` AS `id`, JSON_EXTRACT(`profile`, ?) AS `city` FROM `users` WHERE id > ? AND JSON_UNQUOTE(JSON_EXTRACT(`profile`, ?)) = ? ORDER BY `id` ASC'
+      );
+      expect(compiled.values).toEqual(['$.address.city', 10, '$.active', true]);
+    });
+
+    it('binds the JSON path ahead of the compared value for every operator', () => {
+      const { sql, values } = mysqlOrm.compile({
+        table: 'posts',
+        idField: 'id',
+        fields: { id: 'id' },
+        where: [
+          { json: 'meta', path: '$.archived', op: 'IS NULL' },
+          { json: 'meta', path: '$.title', op: 'STARTS WITH', value: '50%' },
+          { json: 'meta', path: '$.kind', op: 'NOT IN', value: ['a', 'b'] },
+        ],
+      });
+
+      expect(sql).toBe(
+        "SELECT `id` AS `id` FROM `posts` WHERE JSON_UNQUOTE(JSON_EXTRACT(`meta`, ?)) IS NULL AND JSON_UNQUOTE(JSON_EXTRACT(`meta`, ?)) LIKE ? ESCAPE '\\\\' AND JSON_UNQUOTE(JSON_EXTRACT(`meta`, ?)) NOT IN (?, ?) ORDER BY `id` ASC"
+      );
+      expect(values).toEqual(['$.archived', '$.title', '50\\%%', '$.kind', 'a', 'b']);
+    });
+
+    it('builds JSON_CONTAINS, JSON_OVERLAPS, MEMBER OF and JSON_LENGTH conditions', () => {
+      const { sql, values } = mysqlOrm.compile({
+        table: 'posts',
+        idField: 'id',
+        fields: { id: 'id' },
+        where: [
+          { json: 'settings', contains: { beta: true } },
+          { json: 'meta', path: '$.labels', contains: 'urgent' },
+          { json: 'meta', path: '$.tags', overlaps: ['mysql', 'node'] },
+          { json: 'tags', memberOf: 'mysql' },
+          { json: 'tags', length: true, op: '>', value: 2 },
+          { json: 'meta', path: '$.score', op: 'BETWEEN', value: [1, 5] },
+          { json: 'meta', path: '$.kind', op: 'IN', value: [] },
+        ],
+      });
+
+      expect(sql).toBe(
+        'SELECT `id` AS `id` FROM `posts` WHERE JSON_CONTAINS(`settings`, ?) AND JSON_CONTAINS(`meta`, ?, ?) AND JSON_OVERLAPS(JSON_EXTRACT(`meta`, ?), ?) AND ? MEMBER OF (`tags`) AND JSON_LENGTH(`tags`) > ? AND JSON_UNQUOTE(JSON_EXTRACT(`meta`, ?)) BETWEEN ? AND ? AND 1 = 0 ORDER BY `id` ASC'
+      );
+      expect(values).toEqual([
+        '{"beta":true}',
+        '"urgent"',
+        '$.labels',
+        '$.tags',
+        '["mysql","node"]',
+        'mysql',
+        2,
+        '$.score',
+        1,
+        5,
+      ]);
+    });
+
+    it('rejects malformed JSON paths', () => {
+      const base = { table: 'users', idField: 'id', fields: { id: 'id' } };
+      expect(() =>
+        mysqlOrm.compile({
+          ...base,
+          where: [{ json: 'profile', path: "$.a') OR 1=1 --", op: '=', value: 1 }],
+        })
+      ).toThrow('Invalid JSON path for "profile"');
+      expect(() =>
+        mysqlOrm.compile({ ...base, fields: { city: { json: 'profile', path: 'address.city' } } })
+      ).toThrow('Invalid JSON path for "profile"');
+      expect(() =>
+        mysqlOrm.compile({ ...base, where: [{ json: 'tags', memberOf: ['a'] as any }] })
+      ).toThrow('expects a scalar value');
+    });
+  });
+
+  describe('spatial queries', () => {
+    const leeds = [-1.55, 53.8] as [number, number];
+    const area = {
+      type: 'Polygon' as const,
+      coordinates: [
+        [
+          [-2, 53],
+          [-1, 53],
+          [-1, 54],
+          [-2, 54],
+          [-2, 53],
+        ] as [number, number][],
+      ],
+    };
+
+    it('builds spatial conditions, GeoJSON / distance fields and distance ordering', () => {
+      const { sql, values } = mysqlOrm.compile({
+        table: 'shops',
+        idField: 'id',
+        fields: {
+          id: 'id',
+          location: { geojson: 'location' },
+          meters: { column: 'location', distanceFrom: leeds },
+        },
+        where: [
+          { spatial: 'location', near: { point: leeds, meters: 5000 } },
+          { spatial: 'location', within: area },
+          { spatial: 'area', contains: { type: 'Point', coordinates: leeds } },
+          { spatial: 'area', intersects: area, srid: 0 },
+          { spatial: 'location', bbox: [-2, 53, -1, 54] },
+        ],
+        orderByDistance: { column: 'location', from: leeds },
+        limit: 10,
+      });
+
+      const point = JSON.stringify({ type: 'Point', coordinates: leeds });
+      expect(sql).toBe(
+        'SELECT `id` AS `id`, ST_AsGeoJSON(`location`) AS `location`, ST_Distance_Sphere(`location`, ST_GeomFromGeoJSON(?)) AS `meters` FROM `shops` WHERE ST_Distance_Sphere(`location`, ST_GeomFromGeoJSON(?)) <= ? AND ST_Within(`location`, ST_GeomFromGeoJSON(?)) AND ST_Contains(`area`, ST_GeomFromGeoJSON(?)) AND ST_Intersects(`area`, ST_GeomFromGeoJSON(?, 1, 0)) AND MBRIntersects(`location`, ST_GeomFromGeoJSON(?)) ORDER BY ST_Distance_Sphere(`location`, ST_GeomFromGeoJSON(?)) ASC LIMIT 10'
+      );
+      expect(values).toEqual([
+        point,
+        point,
+        5000,
+        JSON.stringify(area),
+        point,
+        JSON.stringify(area),
+        JSON.stringify(area),
+        point,
+      ]);
+    });
+
+    it('binds distance-field geometries before the values for raw WHERE placeholders', () => {
+      const compiled = mysqlOrm.compile(
+        {
+          table: 'shops',
+          idField: 'id',
+          fields: { id: 'id', meters: { column: 'location', distanceFrom: leeds } },
+          where: ['category = ?'],
+        },
+        ['cafe']
+      );
+
+      expect(compiled.sql).toBe(
+        'SELECT `id` AS `id`, ST_Distance_Sphere(`location`, ST_GeomFromGeoJSON(?)) AS `meters` FROM `shops` WHERE category = ? ORDER BY `id` ASC'
+      );
+      expect(compiled.values).toEqual([
+        JSON.stringify({ type: 'Point', coordinates: leeds }),
+        'cafe',
+      ]);
+    });
+
+    it('rejects invalid geometries and distances', () => {
+      const base = { table: 'shops', idField: 'id', fields: { id: 'id' } };
+      expect(() =>
+        mysqlOrm.compile({
+          ...base,
+          where: [{ spatial: 'location', within: { type: 'Circle', coordinates: [] } as any }],
+        })
+      ).toThrow('Spatial value must be a GeoJSON geometry');
+      expect(() =>
+        mysqlOrm.compile({
+          ...base,
+          where: [{ spatial: 'location', near: { point: leeds, meters: -1 } }],
+        })
+      ).toThrow('needs meters >= 0');
+      expect(() =>
+        mysqlOrm.compile({
+          ...base,
+          union: [base],
+          orderByDistance: { column: 'location', from: leeds },
+        })
+      ).toThrow('orderByDistance cannot be combined with union or setOperations');
+    });
+
+    it('writes GeoJSON values with ST_GeomFromGeoJSON on insert and update', () => {
+      const point = { type: 'Point' as const, coordinates: leeds };
+      expect(mysqlOrm.compileInsert('shops', { name: 'A', location: point })).toEqual({
+        sql: 'INSERT INTO `shops` (`name`, `location`) VALUES (?, ST_GeomFromGeoJSON(?))',
+        values: ['A', JSON.stringify(point)],
+      });
+      expect(
+        mysqlOrm.compileBatchInsert('shops', [{ location: point }, { location: null }])
+      ).toEqual({
+        sql: 'INSERT INTO `shops` (`location`) VALUES (ST_GeomFromGeoJSON(?)), (?)',
+        values: [JSON.stringify(point), null],
+      });
+      expect(
+        mysqlOrm.compileUpdate({
+          table: 'shops',
+          data: { location: point },
+          where: ['id = ?'],
+          values: [1],
+        })
+      ).toEqual({
+        sql: 'UPDATE `shops` SET `location` = ST_GeomFromGeoJSON(?) WHERE id = ?',
+        values: [JSON.stringify(point), 1],
+      });
+    });
+
+    it('writes GeoJSON with the SRID configured for the column', async () => {
+      const { MySQLORM } = await import('../src/mysql-orm');
+      const orm = new MySQLORM({
+        host: 'localhost',
+        user: 'test_user',
+        password: 'test_pass',
+        database: 'test_db',
+        srids: { 'shops.location': 3857, area: 0 },
+      });
+      const point = { type: 'Point' as const, coordinates: leeds };
+
+      expect(orm.compileInsert('shops', { location: point, area: point }).sql).toBe(
+        'INSERT INTO `shops` (`location`, `area`) VALUES (ST_GeomFromGeoJSON(?, 1, 3857), ST_GeomFromGeoJSON(?, 1, 0))'
+      );
+      expect(orm.compileInsert('depots', { location: point }).sql).toBe(
+        'INSERT INTO `depots` (`location`) VALUES (ST_GeomFromGeoJSON(?))'
+      );
+    });
+  });
+
+  describe('pattern-matching operators', () => {
+    const base = { table: 'products', idField: 'id', fields: { id: 'id', name: 'product_name' } };
+
+    it('compiles STARTS WITH / ENDS WITH / CONTAINS to LIKE with escaped wildcards', () => {
+      const { sql, values } = mysqlOrm.compile({
+        ...base,
+        where: [
+          { column: 'name', op: 'STARTS WITH', value: '50%_off' },
+          { column: 'sku', op: 'ENDS WITH', value: 'a\\b' },
+          { column: 'name', op: 'CONTAINS', value: 'widget' },
+        ],
+      });
+
+      expect(sql).toContain(
+        "WHERE `product_name` LIKE ? ESCAPE '\\\\' AND `sku` LIKE ? ESCAPE '\\\\' AND `product_name` LIKE ? ESCAPE '\\\\'"
+      );
+      expect(values).toEqual(['50\\%\\_off%', '%a\\\\b', '%widget%']);
+    });
+
+    it('applies a collation for the case-insensitive variants', () => {
+      const { sql, values } = mysqlOrm.compile({
+        ...base,
+        where: [
+          { column: 'name', op: 'ICONTAINS', value: 'Widget' },
+          { column: 'name', op: 'ISTARTS WITH', value: 'w', collation: 'utf8mb4_general_ci' },
+        ],
+      });
+
+      expect(sql).toContain(
+        "WHERE `product_name` COLLATE utf8mb4_0900_ai_ci LIKE ? ESCAPE '\\\\' AND `product_name` COLLATE utf8mb4_general_ci LIKE ? ESCAPE '\\\\'"
+      );
+      expect(values).toEqual(['%Widget%', 'w%']);
+    });
+
+    it('rejects non-string values and invalid collations', () => {
+      expect(() =>
+        mysqlOrm.compile({ ...base, where: [{ column: 'name', op: 'CONTAINS', value: ['a'] }] })
+      ).toThrow('WHERE condition for "name" CONTAINS expects a string value');
+      expect(() =>
+        mysqlOrm.compile({ ...base, where: [{ column: 'name', op: 'STARTS WITH', value: 42 }] })
+      ).toThrow('WHERE condition for "name" STARTS WITH expects a string value');
+      expect(() =>
+        mysqlOrm.compile({
+          ...base,
+          where: [{ column: 'name', op: 'ICONTAINS', value: 'a', collation: 'x; DROP' }],
+        })
+      ).toThrow('Invalid collation');
+    });
+  });
+
+  describe('defineQuery', () => {
+    it('returns the config unchanged for use with getData', async () => {
+      const { col, defineQuery } = await import('../src/mysql-orm');
+      const config = defineQuery<{ status: string }>()({
+        table: 'users',
+        idField: 'id',
+        fields: { id: col<number>('user_id') },
+        where: [{ column: 'status', op: '=', value: 'active' }],
+        whereIn: { id: [1, 2] },
+        orderBy: 'id',
+      });
+
+      expect(mysqlOrm.compile(config)).toEqual({
+        sql: 'SELECT `user_id` AS `id` FROM `users` WHERE `status` = ? AND `user_id` IN (?, ?) ORDER BY `user_id`',
+        values: ['active', 1, 2],
+      });
+    });
+  });
+
+  describe('count strategies', () => {
+    const base = { table: 'users', idField: 'id', fields: { id: 'id' } };
+
+    it("reads the total from COUNT(*) OVER() in a single query with 'window'", async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([
+        [
+          { id: 1, __window_count: 42 },
+          { id: 2, __window_count: 42 },
+        ],
+        [],
+      ] as any);
+
+      const result = await mysqlOrm.getData({ ...base, limit: 2 }, [], { count: 'window' });
+
+      expect(result).toEqual({
+        rows: [{ id: 1 }, { id: 2 }],
+        count: 42,
+        countStrategy: 'window',
+      });
+      expect(vi.mocked(pool.query)).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toBe(
+        'SELECT `id` AS `id`, COUNT(*) OVER() AS `__window_count` FROM `users` ORDER BY `id` ASC LIMIT 2'
+      );
+    });
+
+    it("falls back to an exact count when a 'window' page past the end is empty", async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ count: 7 }], []] as any);
+
+      const result = await mysqlOrm.getData({ ...base, limit: 10, offset: 20 }, [], {
+        count: 'window',
+      });
+
+      expect(result).toEqual({ rows: [], count: 7, countStrategy: 'exact' });
+      expect(vi.mocked(pool.query).mock.calls[1][0]).toContain('SELECT COUNT(*) AS count');
+    });
+
+    it("rejects 'window' with distinct or set operations", async () => {
+      await expect(
+        mysqlOrm.getData({ ...base, distinct: true }, [], { count: 'window' })
+      ).rejects.toThrow("count 'window' cannot be combined with distinct");
+    });
+
+    it("uses information_schema.TABLES for an unfiltered 'estimate'", async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ id: 1 }], []] as any)
+        .mockResolvedValueOnce([[{ count: 100000 }], []] as any);
+
+      const result = await mysqlOrm.getData({ ...base, limit: 1 }, [], { count: 'estimate' });
+
+      expect(result).toEqual({ rows: [{ id: 1 }], count: 100000, countStrategy: 'estimate' });
+      expect(vi.mocked(pool.query).mock.calls[1]).toEqual([
+        'SELECT TABLE_ROWS AS count FROM information_schema.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+        ['users'],
+      ]);
+    });
+
+    it('estimates filtered queries from the EXPLAIN row estimates', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const plan = {
+        query_block: {
+          table: {
+            table_name: 'users',
+            access_type: 'ref',
+            key: 'idx_status',
+            rows_examined_per_scan: 5000,
+            filtered: '10.00',
+          },
+        },
+      };
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ id: 1 }], []] as any)
+        .mockResolvedValueOnce([[{ EXPLAIN: JSON.stringify(plan) }], []] as any);
+
+      const result = await mysqlOrm.getData(
+        { ...base, where: [{ column: 'status', op: '=', value: 'active' }] },
+        [],
+        { count: 'estimate' }
+      );
+
+      expect(result.count).toBe(500);
+      expect(result.countStrategy).toBe('estimate');
+      expect(vi.mocked(pool.query).mock.calls[1][0]).toMatch(/^EXPLAIN FORMAT=JSON SELECT/);
+    });
+
+    it('ignores subquery and derived table blocks in the EXPLAIN estimate', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const plan = {
+        query_block: {
+          select_id: 1,
+          nested_loop: [
+            {
+              table: {
+                table_name: 'users',
+                access_type: 'ALL',
+                rows_examined_per_scan: 1000,
+                filtered: '50.00',
+                attached_subqueries: [
+                  {
+                    query_block: {
+                      select_id: 2,
+                      table: {
+                        table_name: 'orders',
+                        access_type: 'ref',
+                        rows_examined_per_scan: 40,
+                        filtered: '100.00',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+            {
+              table: {
+                table_name: 'totals',
+                access_type: 'ref',
+                rows_examined_per_scan: 2,
+                filtered: '100.00',
+                materialized_from_subquery: {
+                  query_block: {
+                    select_id: 3,
+                    table: {
+                      table_name: 'payments',
+                      access_type: 'ALL',
+                      rows_examined_per_scan: 90000,
+                      filtered: '100.00',
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+      };
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ id: 1 }], []] as any)
+        .mockResolvedValueOnce([[{ EXPLAIN: JSON.stringify(plan) }], []] as any);
+
+      const result = await mysqlOrm.getData(
+        { ...base, where: [{ column: 'status', op: '=', value: 'active' }] },
+        [],
+        { count: 'estimate' }
+      );
+
+      expect(result.count).toBe(1000);
+    });
+
+    it("skips counting with 'none' (like skipCount)", async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ id: 1 }], []] as any);
+
+      const result = await mysqlOrm.getData(base, [], { count: 'none' });
+
+      expect(result).toEqual({ rows: [{ id: 1 }], count: -1, countStrategy: 'none' });
+      expect(vi.mocked(pool.query)).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stream', () => {
+    const config = { table: 'events', idField: 'id', fields: { id: 'id' } };
+
+    async function mockStreamConnection(rows: Array<Record<string, unknown>>) {
+      const { Readable } = await import('stream');
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const stream = vi.fn(() => Readable.from(rows));
+      const connection = {
+        connection: { query: vi.fn(() => ({ stream })) },
+        release: vi.fn(),
+        destroy: vi.fn(),
+      };
+      vi.mocked(pool.getConnection).mockResolvedValueOnce(connection as any);
+      return { connection, stream };
+    }
+
+    it('yields every row, releases the connection and logs the row count', async () => {
+      const { connection, stream } = await mockStreamConnection([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      const { getQueryLogger } = await import('../src/query-logger');
+
+      const rows: unknown[] = [];
+      for await (const row of mysqlOrm.stream(config, [], { highWaterMark: 2 })) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(connection.connection.query).toHaveBeenCalledWith(
+        'SELECT `id` AS `id` FROM `events` ORDER BY `id` ASC',
+        []
+      );
+      expect(stream).toHaveBeenCalledWith({ highWaterMark: 2 });
+      expect(connection.release).toHaveBeenCalled();
+      expect(connection.destroy).not.toHaveBeenCalled();
+      const logger = vi.mocked(getQueryLogger).mock.results.at(-1)!.value;
+      expect(logger.logQuery).toHaveBeenCalledWith(
+        'SELECT `id` AS `id` FROM `events` ORDER BY `id` ASC',
+        [],
+        expect.any(Number),
+        3
+      );
+    });
+
+    it('destroys the connection when iteration stops early', async () => {
+      const { connection } = await mockStreamConnection([{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+      for await (const row of mysqlOrm.stream(config)) {
+        expect(row).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(connection.destroy).toHaveBeenCalled();
+      expect(connection.release).not.toHaveBeenCalled();
+    });
+
+    it('rejects with the abort reason when the signal is aborted', async () => {
+      const { connection } = await mockStreamConnection([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      const controller = new AbortController();
+      const reason = new Error('export cancelled');
+
+      const consume = async () => {
+        for await (const row of mysqlOrm.stream(config, [], { signal: controller.signal })) {
+          expect(row).toEqual({ id: 1 });
+          controller.abort(reason);
+        }
+      };
+
+      await expect(consume()).rejects.toBe(reason);
+      expect(connection.destroy).toHaveBeenCalled();
+    });
+
+    it('rejects with an AbortError when the signal has no reason (Node < 17.2)', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const signal = {
+        aborted: true,
+        reason: undefined,
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+      } as unknown as AbortSignal;
+
+      const consume = async () => {
+        for await (const _row of mysqlOrm.stream(config, [], { signal })) {
+          // no rows expected
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({
+        name: 'AbortError',
+        message: 'The operation was aborted',
+      });
+      expect(pool.getConnection).not.toHaveBeenCalled();
+    });
+
+    it('releases the connection without querying when aborted while connecting', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const connection = { connection: { query: vi.fn() }, release: vi.fn(), destroy: vi.fn() };
+      const controller = new AbortController();
+      const reason = new Error('export cancelled');
+      vi.mocked(pool.getConnection).mockImplementationOnce(async () => {
+        controller.abort(reason);
+        return connection as any;
+      });
+
+      const consume = async () => {
+        for await (const _row of mysqlOrm.stream(config, [], { signal: controller.signal })) {
+          // no rows expected
+        }
+      };
+
+      await expect(consume()).rejects.toBe(reason);
+      expect(connection.connection.query).not.toHaveBeenCalled();
+      expect(connection.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('eachChunk', () => {
+    const config = {
+      table: 'users',
+      idField: 'id',
+      fields: { id: 'id', email: 'email' },
+      where: [{ column: 'active', op: '=' as const, value: true }],
+    };
+    const users = [1, 2, 3, 4, 5].map((id) => ({ id, email: `u${id}@example.com` }));
+
+    it('walks the matching rows by idField in chunks and reports progress', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([users.slice(0, 3), []] as any)
+        .mockResolvedValueOnce([users.slice(2, 5), []] as any)
+        .mockResolvedValueOnce([users.slice(4), []] as any);
+
+      const chunks: number[][] = [];
+      const onProgress = vi.fn();
+      const result = await mysqlOrm.eachChunk(config, [], { size: 2, onProgress }, async (rows) => {
+        chunks.push(rows.map((row: any) => row.id));
+      });
+
+      expect(chunks).toEqual([[1, 2], [3, 4], [5]]);
+      const calls = vi.mocked(pool.query).mock.calls;
+      expect(calls[0]).toEqual([
+        'SELECT `id` AS `id`, `email` AS `email` FROM `users` WHERE `active` = ? ORDER BY `id` ASC LIMIT 3',
+        [true],
+      ]);
+      expect(calls[1]).toEqual([
+        'SELECT `id` AS `id`, `email` AS `email` FROM `users` WHERE `active` = ? AND ((`id` > ?)) ORDER BY `id` ASC LIMIT 3',
+        [true, 2],
+      ]);
+      expect(calls[2][1]).toEqual([true, 4]);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress.mock.calls[1][0]).toMatchObject({ chunks: 2, rows: 4 });
+      expect(result).toEqual({ chunks: 3, rows: 5, checkpoint: expect.any(String) });
+    });
+
+    it('resumes from a checkpoint and walks a composite key', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const rows = [{ tenantId: 1, id: 9 }];
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([rows, []] as any)
+        .mockResolvedValueOnce([[], []] as any);
+      const keyed = { table: 'users', idField: 'id', fields: { tenantId: 'tenant_id', id: 'id' } };
+
+      const first = await mysqlOrm.eachChunk(
+        keyed,
+        [],
+        { size: 1, key: ['tenantId', 'id'] },
+        async () => {}
+      );
+      const resumed = await mysqlOrm.eachChunk(
+        keyed,
+        [],
+        { size: 1, key: ['tenantId', 'id'], resumeFrom: first.checkpoint },
+        async () => {}
+      );
+
+      const calls = vi.mocked(pool.query).mock.calls;
+      expect(calls[0][0]).toContain('ORDER BY `tenant_id` ASC, `id` ASC LIMIT 2');
+      expect(calls[1]).toEqual([
+        'SELECT `tenant_id` AS `tenantId`, `id` AS `id` FROM `users` WHERE ((`tenant_id` > ?) OR (`tenant_id` = ? AND `id` > ?)) ORDER BY `tenant_id` ASC, `id` ASC LIMIT 2',
+        [1, 1, 9],
+      ]);
+      expect(resumed).toEqual({ chunks: 0, rows: 0, checkpoint: first.checkpoint });
+    });
+
+    it('reports progress in key order when chunks finish out of order', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([users.slice(0, 3), []] as any)
+        .mockResolvedValueOnce([users.slice(2, 4), []] as any);
+
+      let releaseFirst!: () => void;
+      const firstDone = new Promise<void>((resolve) => (releaseFirst = resolve));
+      const reported: number[] = [];
+
+      const run = mysqlOrm.eachChunk(
+        config,
+        [],
+        { size: 2, concurrency: 2, onProgress: ({ chunks }) => void reported.push(chunks) },
+        async (_rows, chunk) => {
+          if (chunk.index === 0) await firstDone;
+        }
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(reported).toEqual([]);
+
+      releaseFirst();
+      await expect(run).resolves.toMatchObject({ chunks: 2, rows: 4 });
+      expect(reported).toEqual([1, 2]);
+    });
+
+    it('stops reading chunks after a callback fails and rethrows its error', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([users.slice(0, 3), []] as any);
+      const failure = new Error('backfill failed');
+
+      await expect(
+        mysqlOrm.eachChunk(config, [], { size: 2 }, async () => {
+          throw failure;
+        })
+      ).rejects.toBe(failure);
+      expect(vi.mocked(pool.query)).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops reading chunks after onProgress fails and rethrows its error', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([users.slice(0, 3), []] as any);
+      const failure = new Error('checkpoint store unavailable');
+      const onProgress = vi.fn().mockRejectedValue(failure);
+
+      await expect(
+        mysqlOrm.eachChunk(config, [], { size: 2, onProgress }, async () => {})
+      ).rejects.toBe(failure);
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(pool.query)).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for running callbacks before rethrowing a failed chunk read', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([users.slice(0, 3), []] as any)
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      let releaseFirst!: () => void;
+      const firstDone = new Promise<void>((resolve) => (releaseFirst = resolve));
+      let settled = false;
+
+      const run = mysqlOrm
+        .eachChunk(config, [], { size: 2, concurrency: 2 }, () => firstDone)
+        .finally(() => (settled = true));
+      run.catch(() => {});
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(vi.mocked(pool.query)).toHaveBeenCalledTimes(2);
+      expect(settled).toBe(false);
+
+      releaseFirst();
+      await expect(run).rejects.toThrow('Failed to fetch data');
+    });
+
+    it('runs each chunk in its own transaction when asked', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      const connection = await pool.getConnection();
+      vi.mocked(pool.query).mockResolvedValueOnce([users.slice(0, 2), []] as any);
+
+      const seen: unknown[] = [];
+      await mysqlOrm.eachChunk(config, [], { size: 2, transaction: true }, async (_rows, chunk) => {
+        seen.push(chunk.transaction);
+      });
+
+      expect(seen[0]).toBeDefined();
+      expect(connection.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(connection.commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('binds values for raw where placeholders in every chunk query', async () => {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([users.slice(0, 3), []] as any)
+        .mockResolvedValueOnce([users.slice(2, 3), []] as any);
+
+      await mysqlOrm.eachChunk(
+        { ...config, where: ['created_at > ?', ...config.where] },
+        ['2024-01-01'],
+        { size: 2 },
+        async () => {}
+      );
+
+      const calls = vi.mocked(pool.query).mock.calls;
+      expect(calls[0]).toEqual([
+        'SELECT `id` AS `id`, `email` AS `email` FROM `users` WHERE created_at > ? AND `active` = ? ORDER BY `id` ASC LIMIT 3',
+        ['2024-01-01', true],
+      ]);
+      expect(calls[1]).toEqual([
+        'SELECT `id` AS `id`, `email` AS `email` FROM `users` WHERE created_at > ? AND `active` = ? AND ((`id` > ?)) ORDER BY `id` ASC LIMIT 3',
+        ['2024-01-01', true, 2],
+      ]);
+    });
+
+    it('rejects configs with orderBy, limit or offset', async () => {
+      await expect(
+        mysqlOrm.eachChunk({ ...config, limit: 10 }, [], { size: 2 }, async () => {})
+      ).rejects.toThrow('eachChunk walks rows by key');
+    });
+  });
+
+  describe('type conversion', () => {
+    const connection = {
+      host: 'localhost',
+      user: 'test_user',
+      password: 'test_pass',
+      database: 'test_db',
+    };
+    const field = (type: string, name: string, text: string | null, length = 0) => ({
+      type,
+      length,
+      name,
+      table: 'users',
+      db: 'test_db',
+      string: () => text,
+      buffer: () => null,
+      geometry: () => null,
+    });
+
+    async function typeCastFor(typeConversion?: any) {
+      const mysql = await import('mysql2/promise');
+      const { MySQLORM } = await import('../src/mysql-orm');
+      const orm = new MySQLORM({ ...connection, typeConversion });
+      const options = vi.mocked(mysql.default.createPool).mock.calls.at(-1)![0] as any;
+      return { orm, typeCast: options.typeCast as (field: any, next: () => unknown) => unknown };
+    }
+
+    it('keeps the TINYINT(1) boolean coercion by default, and can opt out', async () => {
+      const next = () => 1;
+      expect((await typeCastFor()).typeCast(field('TINY', 'active', '1', 1), next)).toBe(true);
+      const optOut = await typeCastFor({ tinyIntAsBoolean: false });
+      expect(optOut.typeCast(field('TINY', 'active', '1', 1), next)).toBe(1);
+    });
+
+    it('applies column converters before type converters', async () => {
+      const { converters } = await import('../src/type-converters');
+      const { typeCast } = await typeCastFor({
+        types: { NEWDECIMAL: { read: (f: any) => Number(f.string()) } },
+        columns: { 'users.price': converters.decimalString, roles: converters.set },
+      });
+      const next = () => 'default';
+
+      expect(typeCast(field('NEWDECIMAL', 'price', '10.50'), next)).toBe('10.50');
+      expect(typeCast(field('NEWDECIMAL', 'total', '10.50'), next)).toBe(10.5);
+      expect(typeCast(field('STRING', 'roles', 'a,b'), next)).toEqual(['a', 'b']);
+      expect(typeCast(field('VAR_STRING', 'name', 'Ann'), next)).toBe('default');
+    });
+
+    it('applies table.column converters to aliased fields on read and write', async () => {
+      const mysql = await import('mysql2/promise');
+      const upper = {
+        read: (f: any) => f.string().toUpperCase(),
+        write: (value: string) => value.toLowerCase(),
+      };
+      const { orm } = await typeCastFor({
+        columns: { 'articles.title': upper, 'users.name': upper },
+      });
+      const pool = mysql.default.createPool({} as any);
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+
+      await orm.getData(
+        {
+          table: 'articles',
+          idField: 'id',
+          fields: { id: 'id', headline: 'title', author: 'u.name' },
+          joins: [{ type: 'INNER', table: 'users', alias: 'u', on: 'u.id = articles.user_id' }],
+        },
+        [],
+        { count: 'none' }
+      );
+
+      const [options] = vi.mocked(pool.query).mock.calls[0] as any;
+      expect(options.sql).toContain('`title` AS `headline`');
+      const next = () => 'default';
+      const aliased = (name: string, table: string, text: string) => ({
+        ...field('VAR_STRING', name, text),
+        table,
+      });
+      expect(options.typeCast(aliased('headline', 'articles', 'hello'), next)).toBe('HELLO');
+      expect(options.typeCast(aliased('author', 'u', 'ann'), next)).toBe('ANN');
+      expect(options.typeCast(aliased('id', 'articles', '1'), next)).toBe('default');
+      expect(orm.compileInsert('articles', { title: 'Hello' }).values).toEqual(['hello']);
+    });
+
+    it('serializes written values with column write converters', async () => {
+      const { converters } = await import('../src/type-converters');
+      const { orm } = await typeCastFor({
+        columns: { roles: converters.set, 'users.settings': converters.json },
+      });
+
+      expect(
+        orm.compileInsert('users', { roles: ['a', 'b'], settings: { theme: 'dark' } })
+      ).toEqual({
+        sql: 'INSERT INTO `users` (`roles`, `settings`) VALUES (?, ?)',
+        values: ['a,b', '{"theme":"dark"}'],
+      });
+      expect(
+        orm.compileUpdate({ table: 'users', data: { roles: [] }, where: ['id = ?'], values: [1] })
+          .values
+      ).toEqual(['', 1]);
+      expect(orm.compileInsert('accounts', { settings: { theme: 'dark' } }).values).toEqual([
+        '{"theme":"dark"}',
+      ]);
+    });
+  });
+
+  describe('big numbers', () => {
+    const connection = {
+      host: 'localhost',
+      user: 'test_user',
+      password: 'test_pass',
+      database: 'test_db',
+    };
+    const big = '9007199254740993';
+
+    async function ormFor(bigNumbers?: 'number' | 'string' | 'bigint') {
+      const mysql = await import('mysql2/promise');
+      const { MySQLORM } = await import('../src/mysql-orm');
+      const orm = new MySQLORM({ ...connection, ...(bigNumbers && { bigNumbers }) });
+      const options = vi.mocked(mysql.default.createPool).mock.calls.at(-1)![0] as any;
+      const pool = mysql.default.createPool({} as any);
+      return { orm, options, pool };
+    }
+
+    it('configures the pool for the selected mode', async () => {
+      const defaults = await ormFor();
+      expect(defaults.options.supportBigNumbers).toBeUndefined();
+      expect(defaults.options.bigNumberStrings).toBeUndefined();
+
+      for (const mode of ['string', 'bigint'] as const) {
+        const { options } = await ormFor(mode);
+        expect(options).toMatchObject({ supportBigNumbers: true, bigNumberStrings: true });
+      }
+    });
+
+    it('reads BIGINT columns as bigint in bigint mode', async () => {
+      const { options } = await ormFor('bigint');
+      const field = {
+        type: 'LONGLONG',
+        length: 20,
+        name: 'id',
+        table: 'users',
+        db: 'test_db',
+        string: () => big,
+        buffer: () => null,
+        geometry: () => null,
+      };
+
+      expect(options.typeCast(field, () => big)).toBe(9007199254740993n);
+    });
+
+    it('types insert IDs to match the mode', async () => {
+      const bigint = await ormFor('bigint');
+      vi.mocked(bigint.pool.query).mockResolvedValueOnce([
+        { insertId: big, affectedRows: 1 },
+        [],
+      ] as any);
+      await expect(bigint.orm.insertData('users', { name: 'Ann' })).resolves.toBe(
+        9007199254740993n
+      );
+
+      const string = await ormFor('string');
+      vi.mocked(string.pool.query).mockResolvedValueOnce([
+        { insertId: big, affectedRows: 2 },
+        [],
+      ] as any);
+      await expect(
+        string.orm.batchInsertData('users', [{ name: 'Ann' }, { name: 'Bob' }])
+      ).resolves.toEqual({ affectedRows: 2, firstInsertId: big });
+    });
+
+    it('returns counts as numbers whatever the mode', async () => {
+      const { orm, pool } = await ormFor('string');
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce([[{ id: big }], []] as any)
+        .mockResolvedValueOnce([[{ count: '5' }], []] as any)
+        .mockResolvedValueOnce([[{ count: '5' }], []] as any);
+
+      const result = await orm.getData({ table: 'users', fields: { id: 'id' } });
+      expect(result.count).toBe(5);
+      await expect(orm.getCount({ table: 'users', fields: { id: 'id' } })).resolves.toBe(5);
+    });
+
+    it('binds bigint values in conditions, writes and cursors', async () => {
+      const { orm, pool } = await ormFor('bigint');
+      const id = 9007199254740993n;
+
+      expect(
+        orm.toSQL({
+          table: 'users',
+          fields: { id: 'id' },
+          where: [{ column: 'id', op: '>', value: id }],
+        }).values
+      ).toEqual([id]);
+      expect(orm.compileInsert('users', { id, name: 'Ann' }).values).toEqual([id, 'Ann']);
+
+      const config = { table: 'users', idField: 'id', fields: { id: 'id' }, limit: 1 };
+      vi.mocked(pool.query).mockResolvedValueOnce([[{ id }, { id: id + 1n }], []] as any);
+      const page = await orm.getData(config, [], { cursor: {}, count: 'none' });
+      vi.mocked(pool.query).mockClear();
+      vi.mocked(pool.query).mockResolvedValueOnce([[], []] as any);
+      await orm.getData(config, [], { cursor: { after: page.nextCursor }, count: 'none' });
+
+      expect(vi.mocked(pool.query).mock.calls[0]![1]).toEqual([id]);
+    });
+  });
 });
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MySQLORM } from '../src/mysql-orm';
+
+// Mock the mysql2/promise module
+vi.mock('mysql2/promise', () => {
+  const mockQuery = vi.fn();
+  const mockConnection = {
+    beginTransaction: vi.fn(),
+    commit: vi.fn(),
+    rollback: vi.fn(),
+    release: vi.fn(),
+    query: mockQuery,
+  };
+
+  const mockPool = {
+    query: mockQuery,
+    getConnection: vi.fn().mockResolvedValue(mockConnection),
+    end: vi.fn(),
+  };
+
+  return {
+    default: {
+      createPool: vi.fn(() => mockPool),
+    },
+    escapeId: vi.fn((str: string) => `\`${str}\``),
+    escape: vi.fn((str: string) => `'${str}'`),
+  };
+});
+
+// Mock query logger
+vi.mock('../src/query-logger', () => ({
+  getQueryLogger: vi.fn(() => ({
+    logQuery: vi.fn(),
+    logError: vi.fn(),
+  })),
+}));
+
+describe('QueryBuilder', () => {
+  let orm: MySQLORM;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    const { MySQLORM } = await import('../src/mysql-orm');
+    orm = new MySQLORM({
+      host: 'localhost',
+      user: 'test_user',
+      password: 'test_pass',
+      database: 'test_db',
+    });
+  });
+
+  it('builds the same SQL as the equivalent QueryConfig', () => {
+    const built = orm
+      .from('users', 'users.id')
+      .select({ id: 'users.id', name: 'users.name' })
+      .select({ orders: 'COUNT(o.id)' })
+      .leftJoin('orders', { columns: [['o.user_id', 'users.id']] }, 'o')
+      .where({ column: 'users.status', op: '=', value: 'active' })
+      .whereIn('users.role', ['admin', 'editor'])
+      .groupBy('users.id')
+      .having({ column: 'orders', op: '>', value: 2 })
+      .orderBy('name')
+      .orderBy('orders', 'DESC')
+      .limit(10)
+      .offset(20);
+
+    expect(built.toSQL()).toEqual(
+      orm.toSQL({
+        table: 'users',
+        idField: 'users.id',
+        fields: { id: 'users.id', name: 'users.name', orders: 'COUNT(o.id)' },
+        joins: [
+          {
+            type: 'LEFT',
+            table: 'orders',
+            alias: 'o',
+            on: { columns: [['o.user_id', 'users.id']] },
+          },
+        ],
+        where: [{ column: 'users.status', op: '=', value: 'active' }],
+        whereIn: { 'users.role': ['admin', 'editor'] },
+        groupBy: ['users.id'],
+        having: [{ column: 'orders', op: '>', value: 2 }],
+        orderBy: [
+          { column: 'name', direction: 'ASC' },
+          { column: 'orders', direction: 'DESC' },
+        ],
+        limit: 10,
+        offset: 20,
+      })
+    );
+  });
+
+  it('is immutable: each call returns a new builder', () => {
+    const base = orm.from('users').select({ id: 'id' });
+    const active = base.where({ column: 'status', op: '=', value: 'active' });
+    const limited = active.limit(5);
+
+    expect(base.toConfig().where).toBeUndefined();
+    expect(active.toConfig().where).toHaveLength(1);
+    expect(active.toConfig().limit).toBeUndefined();
+    expect(limited.toConfig().limit).toBe(5);
+  });
+
+  it('accepts builders as set-operation branches and CTEs', () => {
+    const archived = orm.from('archived_users').select({ id: 'id' });
+    const { sql } = orm
+      .from('recent')
+      .with('recent', orm.from('users').select({ id: 'id' }).limit(100))
+      .select({ id: 'id' })
+      .union(archived, true)
+      .toSQL();
+
+    expect(sql).toContain('WITH `recent` AS (SELECT `id` AS `id` FROM `users` LIMIT 100)');
+    expect(sql).toContain('UNION ALL (SELECT `id` AS `id` FROM `archived_users`)');
+  });
+
+  it('executes via get(), first() and count()', async () => {
+    const mysql = await import('mysql2/promise');
+    const pool = mysql.default.createPool({} as any);
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce([[{ id: 1 }], []] as any)
+      .mockResolvedValueOnce([[{ count: 1 }], []] as any)
+      .mockResolvedValueOnce([[{ id: 1 }], []] as any)
+      .mockResolvedValueOnce([[{ count: 7 }], []] as any);
+
+    const query = orm.from('users').select({ id: 'id' }).where('created_at > ?');
+
+    await expect(query.get(['2024-01-01'])).resolves.toEqual({
+      rows: [{ id: 1 }],
+      count: 1,
+      countStrategy: 'exact',
+    });
+    await expect(query.first(['2024-01-01'])).resolves.toEqual({ id: 1 });
+    await expect(query.count(['2024-01-01'])).resolves.toBe(7);
+
+    const calls = vi.mocked(pool.query).mock.calls;
+    expect(calls[2][0]).toContain('LIMIT 1');
+    expect(calls[3]).toEqual([
+      'SELECT COUNT(*) AS count FROM `users` WHERE created_at > ? LIMIT 1',
+      ['2024-01-01'],
+    ]);
+  });
+
+  it('rejects reading rows before any field is selected', async () => {
+    const query = orm.from('users').where({ column: 'status', op: '=', value: 'active' });
+
+    await expect(query.get()).rejects.toThrow(
+      'QueryBuilder.get() requires at least one field; call .select() first'
+    );
+    await expect(query.first()).rejects.toThrow('QueryBuilder.first() requires at least one field');
+    await expect(query.stream().next()).rejects.toThrow(
+      'QueryBuilder.stream() requires at least one field'
+    );
+    expect(() => query.toSQL()).toThrow('QueryBuilder.toSQL() requires at least one field');
+    expect(query.toSQL({ count: true }).sql).toBe(
+      'SELECT COUNT(*) AS count FROM `users` WHERE `status` = ? LIMIT 1'
+    );
+
+    const mysql = await import('mysql2/promise');
+    expect(vi.mocked(mysql.default.createPool({} as any).query)).not.toHaveBeenCalled();
+  });
+});
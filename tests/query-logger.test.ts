@@ -190,6 +190,19 @@ describe('QueryLogger', () => {
       expect(logCall).toContain('Values: [1 parameters redacted]');
     });
 
+    it('should include the row count when given', () => {
+      const logger = new QueryLogger({
+        enabled: true,
+        logToFile: true,
+        logToConsole: false,
+      });
+
+      logger.logQuery('SELECT * FROM events', [], 3200, 150000);
+
+      const logCall = mockWriteStream.write.mock.calls[0][0];
+      expect(logCall).toContain('[3200ms] [150000 rows] SELECT * FROM events');
+    });
+
     it('should log slow queries as warnings', () => {
       const logger = new QueryLogger({
         enabled: true,
@@ -458,6 +471,19 @@ describe('QueryLogger', () => {
       expect(logCall.endsWith('\n')).toBe(true);
     });
 
+    it('should log bigint values without losing precision', () => {
+      const logger = new QueryLogger({
+        enabled: true,
+        logToFile: true,
+        logValues: true,
+      });
+
+      logger.logQuery('SELECT * FROM users WHERE id = ?', [9007199254740993n, 'a'], 5);
+
+      const logCall = mockWriteStream.write.mock.calls[0][0];
+      expect(logCall).toContain('Values: ["9007199254740993","a"]');
+    });
+
     it('should handle different log levels in console output', () => {
       const logger = new QueryLogger({
         enabled: true,
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { converters, type ResultField } from '../src/type-converters';
+
+/** A fake typeCast field whose raw value is `text` (or `buffer` for binary reads). */
+function field(
+  type: ResultField['type'],
+  text: string | null,
+  options: { length?: number; buffer?: Buffer | null } = {}
+): ResultField {
+  return {
+    type,
+    length: options.length ?? 0,
+    db: 'test_db',
+    table: 'users',
+    name: 'value',
+    string: () => text,
+    buffer: () => (options.buffer !== undefined ? options.buffer : null),
+    geometry: () => null,
+  };
+}
+
+const next = () => 'default';
+
+describe('converters', () => {
+  it('bigint reads BIGINT without losing precision and writes strings', () => {
+    expect(converters.bigint.read(field('LONGLONG', '9007199254740993'), next)).toBe(
+      9007199254740993n
+    );
+    expect(converters.bigint.read(field('LONGLONG', null), next)).toBeNull();
+    expect(converters.bigint.write(9007199254740993n)).toBe('9007199254740993');
+  });
+
+  it('decimalString keeps DECIMAL values as exact strings', () => {
+    expect(converters.decimalString.read(field('NEWDECIMAL', '12345.6700'), next)).toBe(
+      '12345.6700'
+    );
+  });
+
+  it('json parses on read and stringifies on write', () => {
+    expect(converters.json.read(field('JSON', '{"a":[1,2]}'), next)).toEqual({ a: [1, 2] });
+    expect(converters.json.read(field('JSON', null), next)).toBeNull();
+    expect(converters.json.write({ a: [1, 2] })).toBe('{"a":[1,2]}');
+  });
+
+  it('set splits to string[] and joins on write', () => {
+    expect(converters.set.read(field('STRING', 'admin,editor'), next)).toEqual(['admin', 'editor']);
+    expect(converters.set.read(field('STRING', ''), next)).toEqual([]);
+    expect(converters.set.write(['admin', 'editor'])).toBe('admin,editor');
+  });
+
+  it('bitBoolean reads BIT(1) as a boolean and leaves wider BIT columns alone', () => {
+    const defaultRead = vi.fn(next);
+    expect(
+      converters.bitBoolean.read(field('BIT', null, { length: 1, buffer: Buffer.from([1]) }), next)
+    ).toBe(true);
+    expect(
+      converters.bitBoolean.read(field('BIT', null, { length: 1, buffer: Buffer.from([0]) }), next)
+    ).toBe(false);
+    expect(converters.bitBoolean.read(field('BIT', null, { length: 8 }), defaultRead)).toBe(
+      'default'
+    );
+    expect(converters.bitBoolean.write(true)).toBe(1);
+    expect(converters.bitBoolean.write(null)).toBeNull();
+    expect(() => converters.bitBoolean.write('yes')).toThrow(
+      'bitBoolean: value must be a boolean, a number or null'
+    );
+  });
+});
@@ -0,0 +1,48 @@
+// Type-level tests for window function fields, checked by `npm run typecheck` (not run by
+// vitest).
+import { describe, it, expectTypeOf } from 'vitest';
+import type { MySQLORM } from '../src/mysql-orm';
+
+declare const orm: MySQLORM;
+declare const stringOrm: MySQLORM<'string'>;
+declare const bigintOrm: MySQLORM<'bigint'>;
+
+const ranked = {
+  table: 'scores',
+  idField: 'id',
+  fields: {
+    position: { window: 'ROW_NUMBER' as const, orderBy: 'points' },
+    tally: { window: 'COUNT' as const, args: ['*'] },
+    percentile: { window: 'PERCENT_RANK' as const, orderBy: 'points' },
+    running: { window: 'SUM' as const, args: ['points'] },
+  },
+};
+
+describe('window fields', () => {
+  it('types BIGINT window results by the bigNumbers mode', () => {
+    expectTypeOf(orm.getFirst(ranked)).resolves.toEqualTypeOf<{
+      position: number;
+      tally: number;
+      percentile: number;
+      running: string;
+    } | null>();
+    expectTypeOf(stringOrm.getFirst(ranked)).resolves.toEqualTypeOf<{
+      position: string;
+      tally: string;
+      percentile: number;
+      running: string;
+    } | null>();
+    expectTypeOf(bigintOrm.getFirst(ranked)).resolves.toEqualTypeOf<{
+      position: bigint;
+      tally: bigint;
+      percentile: number;
+      running: string;
+    } | null>();
+  });
+
+  it('carries the mode through the query builder', () => {
+    const query = bigintOrm.from('scores').select({ rank: { window: 'RANK' as const } });
+
+    expectTypeOf(query.first()).resolves.toEqualTypeOf<{ rank: bigint } | null>();
+  });
+});